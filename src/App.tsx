@@ -2,24 +2,33 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
-import Index from "./pages/Index";
+import { createBrowserRouter, Navigate, RouterProvider } from "react-router-dom";
 import NotFound from "./pages/NotFound";
+import ProductEditor from "./pages/ProductEditor";
+import ProductImport from "./pages/ProductImport";
+import Products from "./pages/Products";
+import Settings from "./pages/Settings";
 
 const queryClient = new QueryClient();
 
+// A data router is required for useBlocker, which guards unsaved editor changes.
+const router = createBrowserRouter([
+  { path: "/", element: <Navigate to="/products" replace /> },
+  { path: "/products", element: <Products /> },
+  { path: "/products/new", element: <ProductEditor /> },
+  { path: "/products/import", element: <ProductImport /> },
+  { path: "/products/:id/edit", element: <ProductEditor /> },
+  { path: "/settings", element: <Settings /> },
+  // ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE
+  { path: "*", element: <NotFound /> },
+]);
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <RouterProvider router={router} />
     </TooltipProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,318 @@
+import { Eye } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import DatePickerInput from '@/components/DatePickerInput';
+import FileUploadInput from '@/components/FileUploadInput';
+import PriceBreakdownSummary from '@/components/PriceBreakdownSummary';
+import { validateCustomerValues } from '@/lib/customer-validation';
+import { getDateError } from '@/lib/date-field';
+import { getVisibleFields } from '@/lib/field-visibility';
+import { calculatePriceBreakdown } from '@/lib/pricing';
+import type {
+  CustomerValue,
+  CustomerValues,
+  ProductData,
+  SpecialField,
+  UploadedFile,
+} from '@/lib/product';
+import { isMultilineField } from '@/lib/text-field';
+import { cn } from '@/lib/utils';
+
+interface MultiSelectInputProps {
+  field: SpecialField;
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+const MultiSelectInput = ({ field, selected, onChange }: MultiSelectInputProps) => {
+  const { minSelections: min, maxSelections: max } = field;
+  const atMax = max !== undefined && selected.length >= max;
+  const hint =
+    min !== undefined && max !== undefined
+      ? `Choose ${min === max ? min : `${min} to ${max}`}`
+      : min !== undefined
+        ? `Choose at least ${min}`
+        : max !== undefined
+          ? `Choose up to ${max}`
+          : 'Choose any';
+
+  return (
+    <div className="space-y-1">
+      <ToggleGroup
+        type="multiple"
+        variant="outline"
+        className="flex-wrap justify-start"
+        value={selected}
+        // Keep selections in option order rather than click order.
+        onValueChange={(ids) =>
+          onChange(
+            field.dropdownOptions.filter((opt) => ids.includes(opt.id)).map((opt) => opt.id)
+          )
+        }
+      >
+        {field.dropdownOptions.map((opt) => (
+          <ToggleGroupItem
+            key={opt.id}
+            value={opt.id}
+            disabled={atMax && !selected.includes(opt.id)}
+            className="px-3"
+          >
+            {opt.name || 'Unnamed Option'} (+${opt.price.toFixed(2)})
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      <p className="text-xs text-muted-foreground">{hint}</p>
+    </div>
+  );
+};
+
+interface SwatchInputProps {
+  field: SpecialField;
+  selected: string | undefined;
+  onChange: (optionId: string) => void;
+}
+
+const SwatchInput = ({ field, selected, onChange }: SwatchInputProps) => {
+  const selectedOption = field.dropdownOptions.find((opt) => opt.id === selected);
+
+  return (
+    <div className="space-y-2">
+      <div role="radiogroup" aria-label={field.label} className="flex flex-wrap gap-2">
+        {field.dropdownOptions.map((opt) => (
+          <button
+            key={opt.id}
+            type="button"
+            role="radio"
+            aria-checked={opt.id === selected}
+            aria-label={opt.name || 'Unnamed Option'}
+            title={`${opt.name || 'Unnamed Option'} (+$${opt.price.toFixed(2)})`}
+            onClick={() => onChange(opt.id)}
+            className={cn(
+              'h-9 w-9 rounded-full border bg-cover bg-center ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2',
+              opt.id === selected && 'ring-2 ring-primary ring-offset-2'
+            )}
+            style={{
+              backgroundColor: opt.swatchColor,
+              backgroundImage: opt.swatchImageUrl ? `url("${opt.swatchImageUrl}")` : undefined,
+            }}
+          />
+        ))}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {selectedOption
+          ? `${selectedOption.name || 'Unnamed Option'} (+$${selectedOption.price.toFixed(2)})`
+          : 'Select option'}
+      </p>
+    </div>
+  );
+};
+
+interface CustomerPreviewProps {
+  product: ProductData;
+  customerValues: CustomerValues;
+  /** Receives an update of the current values, so changes made during an upload are kept. */
+  onCustomerValuesChange: (update: (values: CustomerValues) => CustomerValues) => void;
+}
+
+const CustomerPreview = ({ product, customerValues, onCustomerValuesChange }: CustomerPreviewProps) => {
+  const errors = validateCustomerValues(product, customerValues);
+  const isOrderable = Object.keys(errors).length === 0;
+
+  const updateValue = (
+    fieldId: string,
+    update: (value: CustomerValue | undefined) => CustomerValue
+  ) => onCustomerValuesChange((values) => ({ ...values, [fieldId]: update(values[fieldId]) }));
+  const setValue = (fieldId: string, value: CustomerValue) => updateValue(fieldId, () => value);
+
+  // Errors stay hidden until the customer has interacted with the field.
+  const visibleError = (fieldId: string) => (fieldId in customerValues ? errors[fieldId] : undefined);
+
+  return (
+    <Card className="border-primary/20">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Eye className="h-5 w-5 text-primary" />
+            <CardTitle>Customer Preview</CardTitle>
+          </div>
+          <Badge variant={isOrderable ? 'secondary' : 'destructive'}>
+            {isOrderable ? 'Orderable' : 'Not orderable'}
+          </Badge>
+        </div>
+        <CardDescription>
+          This is how customers will see and interact with special fields
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3">
+          <div>
+            <p className="font-semibold text-foreground">{product.name || 'Product Name'}</p>
+            <p className="text-sm text-muted-foreground">
+              Base Price: ${product.basePrice.toFixed(2)}
+            </p>
+          </div>
+
+          {getVisibleFields(product, customerValues).map((field) => {
+            const error = visibleError(field.id);
+            const invalidClass = cn(error && 'border-destructive focus-visible:ring-destructive');
+            const displayMode = field.displayMode ?? 'select';
+
+            return (
+              <div key={field.id} className="space-y-2">
+                {field.type === 'checkbox' ? (
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`preview-${field.id}`}
+                      checked={customerValues[field.id] === true}
+                      onCheckedChange={(checked) => setValue(field.id, checked === true)}
+                      aria-invalid={!!error}
+                      className={cn(error && 'border-destructive')}
+                    />
+                    <Label htmlFor={`preview-${field.id}`} className="font-normal">
+                      {field.label || 'Field Label'} (+${field.price.toFixed(2)})
+                      {field.required && <span className="text-destructive"> *</span>}
+                    </Label>
+                  </div>
+                ) : (
+                  <Label>
+                    {field.label || 'Field Label'}
+                    {field.required && <span className="text-destructive"> *</span>}
+                  </Label>
+                )}
+                {field.type === 'text' && isMultilineField(field) && (
+                  <Textarea
+                    placeholder="Enter"
+                    rows={3}
+                    value={(customerValues[field.id] as string) || ''}
+                    onChange={(e) => setValue(field.id, e.target.value)}
+                    maxLength={field.maxLength}
+                    aria-invalid={!!error}
+                    className={invalidClass}
+                  />
+                )}
+                {field.type === 'text' && !isMultilineField(field) && (
+                  <Input
+                    placeholder="Enter"
+                    value={(customerValues[field.id] as string) || ''}
+                    onChange={(e) => setValue(field.id, e.target.value)}
+                    maxLength={field.maxLength}
+                    aria-invalid={!!error}
+                    className={invalidClass}
+                  />
+                )}
+                {field.type === 'number' && (
+                  <Input
+                    type="number"
+                    placeholder="Enter quantity"
+                    value={(customerValues[field.id] as number | string) ?? ''}
+                    min={field.minValue ?? 0}
+                    max={field.maxValue}
+                    step={field.allowDecimal ? 'any' : 1}
+                    onChange={(e) =>
+                      setValue(field.id, e.target.value === '' ? '' : Number(e.target.value))
+                    }
+                    aria-invalid={!!error}
+                    className={invalidClass}
+                  />
+                )}
+                {field.type === 'dropdown' && field.dropdownOptions && displayMode === 'select' && (
+                  <Select
+                    value={(customerValues[field.id] as string) || ''}
+                    onValueChange={(value) => setValue(field.id, value)}
+                  >
+                    <SelectTrigger aria-invalid={!!error} className={invalidClass}>
+                      <SelectValue placeholder="Select option" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {field.dropdownOptions.map((opt) => (
+                        <SelectItem key={opt.id} value={opt.id}>
+                          {opt.name || 'Unnamed Option'} (+${opt.price.toFixed(2)})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {field.type === 'dropdown' && field.dropdownOptions && displayMode === 'radio' && (
+                  <RadioGroup
+                    value={(customerValues[field.id] as string) || ''}
+                    onValueChange={(value) => setValue(field.id, value)}
+                    aria-invalid={!!error}
+                  >
+                    {field.dropdownOptions.map((opt) => (
+                      <div key={opt.id} className="flex items-center space-x-2">
+                        <RadioGroupItem value={opt.id} id={`preview-${opt.id}`} />
+                        <Label htmlFor={`preview-${opt.id}`} className="font-normal">
+                          {opt.name || 'Unnamed Option'} (+${opt.price.toFixed(2)})
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                )}
+                {field.type === 'dropdown' && field.dropdownOptions && displayMode === 'swatches' && (
+                  <SwatchInput
+                    field={field}
+                    selected={customerValues[field.id] as string | undefined}
+                    onChange={(optionId) => setValue(field.id, optionId)}
+                  />
+                )}
+                {field.type === 'date' && (
+                  <DatePickerInput
+                    value={customerValues[field.id] as string | undefined}
+                    onChange={(value) => setValue(field.id, value ?? '')}
+                    isDisabled={(date) => !!getDateError(field, date)}
+                    invalid={!!error}
+                  />
+                )}
+                {field.type === 'file' && (
+                  <FileUploadInput
+                    field={field}
+                    files={
+                      Array.isArray(customerValues[field.id])
+                        ? (customerValues[field.id] as UploadedFile[])
+                        : []
+                    }
+                    onChange={(update) =>
+                      updateValue(field.id, (value) =>
+                        update(Array.isArray(value) ? (value as UploadedFile[]) : [])
+                      )
+                    }
+                    invalid={!!error}
+                  />
+                )}
+                {field.type === 'multiselect' && field.dropdownOptions && (
+                  <MultiSelectInput
+                    field={field}
+                    selected={
+                      Array.isArray(customerValues[field.id])
+                        ? (customerValues[field.id] as string[])
+                        : []
+                    }
+                    onChange={(selected) => setValue(field.id, selected)}
+                  />
+                )}
+                {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+              </div>
+            );
+          })}
+
+          <PriceBreakdownSummary breakdown={calculatePriceBreakdown(product, customerValues)} />
+
+          {!isOrderable && (
+            <p className="text-sm text-destructive">
+              Fill in all required fields and fix any errors before this configuration can be ordered.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CustomerPreview;
@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { CalendarIcon, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { formatDateValue, formatDisplayDate, parseDateValue } from '@/lib/date-field';
+import { cn } from '@/lib/utils';
+
+interface DatePickerInputProps {
+  /** Selected date as `yyyy-MM-dd`. */
+  value: string | undefined;
+  onChange: (value: string | undefined) => void;
+  placeholder?: string;
+  /** Days the calendar greys out. */
+  isDisabled?: (date: Date) => boolean;
+  invalid?: boolean;
+}
+
+const DatePickerInput = ({
+  value,
+  onChange,
+  placeholder = 'Pick a date',
+  isDisabled,
+  invalid,
+}: DatePickerInputProps) => {
+  const [open, setOpen] = useState(false);
+  const selected = parseDateValue(value);
+
+  return (
+    <div className="flex gap-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            aria-invalid={invalid}
+            className={cn(
+              'flex-1 justify-start text-left font-normal',
+              !selected && 'text-muted-foreground',
+              invalid && 'border-destructive focus-visible:ring-destructive'
+            )}
+          >
+            <CalendarIcon className="h-4 w-4 mr-2" />
+            {selected ? formatDisplayDate(value) : placeholder}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={selected}
+            defaultMonth={selected}
+            disabled={isDisabled}
+            onSelect={(date) => {
+              onChange(date ? formatDateValue(date) : undefined);
+              setOpen(false);
+            }}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      {selected && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onChange(undefined)}
+          aria-label="Clear date"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default DatePickerInput;
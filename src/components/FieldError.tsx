@@ -0,0 +1,4 @@
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="text-sm font-medium text-destructive">{message}</p> : null;
+
+export default FieldError;
@@ -0,0 +1,126 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import FieldError from '@/components/FieldError';
+import { createVisibilityRule, VISIBILITY_OPERATORS } from '@/lib/field-visibility';
+import { hasOptions, type SpecialField, type VisibilityRule } from '@/lib/product';
+import { cn } from '@/lib/utils';
+
+interface FieldVisibilityEditorProps {
+  field: SpecialField;
+  /** Every special field of the product, including `field` itself. */
+  fields: SpecialField[];
+  error?: string;
+  onChange: (rule: VisibilityRule | undefined) => void;
+}
+
+const FieldVisibilityEditor = ({ field, fields, error, onChange }: FieldVisibilityEditorProps) => {
+  const rule = field.visibleWhen;
+  const candidates = fields.filter((other) => other.id !== field.id);
+  const controller = rule && candidates.find((other) => other.id === rule.fieldId);
+  const invalidClass = cn(error && 'border-destructive focus-visible:ring-destructive');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id={`${field.id}-conditional`}
+          checked={!!rule}
+          disabled={!rule && candidates.length === 0}
+          onCheckedChange={(checked) =>
+            onChange(checked === true ? createVisibilityRule(candidates[0]) : undefined)
+          }
+        />
+        <Label htmlFor={`${field.id}-conditional`} className="font-normal">
+          Only show this field depending on another field
+          {!rule && candidates.length === 0 && (
+            <span className="text-muted-foreground text-xs ml-1">
+              - Add another special field first
+            </span>
+          )}
+        </Label>
+      </div>
+
+      {rule && (
+        <div className="space-y-2 pl-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Show When</Label>
+              <Select
+                value={controller ? rule.fieldId : ''}
+                onValueChange={(id) =>
+                  onChange(createVisibilityRule(candidates.find((other) => other.id === id)))
+                }
+              >
+                <SelectTrigger
+                  aria-invalid={!controller && !!error}
+                  className={cn(!controller && invalidClass)}
+                >
+                  <SelectValue placeholder="Choose a field" />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map((other) => (
+                    <SelectItem key={other.id} value={other.id}>
+                      {other.label || `Special Field #${fields.indexOf(other) + 1}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {controller && hasOptions(controller.type) && (
+              <div className="space-y-2">
+                <Label>{controller.type === 'multiselect' ? 'Includes' : 'Is'}</Label>
+                <Select
+                  value={rule.optionId ?? ''}
+                  onValueChange={(optionId) => onChange({ ...rule, optionId })}
+                >
+                  <SelectTrigger aria-invalid={!!error} className={invalidClass}>
+                    <SelectValue placeholder="Choose an option" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {controller.dropdownOptions?.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.name || 'Unnamed Option'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {controller && VISIBILITY_OPERATORS[controller.type] === 'notEmpty' && (
+              <div className="space-y-2">
+                <Label>Condition</Label>
+                <p className="flex h-10 items-center text-sm text-muted-foreground">
+                  {controller.type === 'checkbox' ? 'Is checked' : 'Is filled in'}
+                </p>
+              </div>
+            )}
+            {controller?.type === 'number' && (
+              <div className="space-y-2">
+                <Label>Is Greater Than</Label>
+                <Input
+                  type="number"
+                  placeholder="0"
+                  value={rule.threshold ?? ''}
+                  onChange={(e) =>
+                    onChange({
+                      ...rule,
+                      threshold: e.target.value ? parseFloat(e.target.value) : undefined,
+                    })
+                  }
+                  aria-invalid={!!error}
+                  className={invalidClass}
+                />
+              </div>
+            )}
+          </div>
+          <FieldError message={error} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FieldVisibilityEditor;
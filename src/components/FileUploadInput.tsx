@@ -0,0 +1,148 @@
+import { useEffect, useRef, useState } from 'react';
+import { FileIcon, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import { formatFileSize, getFileError } from '@/lib/file-field';
+import { fileStorage } from '@/lib/file-storage';
+import type { SpecialField, UploadedFile } from '@/lib/product';
+
+/** Image uploads show their contents; anything else shows a generic icon. */
+const FileThumbnail = ({ file }: { file: UploadedFile }) => {
+  const [url, setUrl] = useState<string>();
+
+  useEffect(() => {
+    if (!file.type.startsWith('image/')) return;
+    let objectUrl: string | undefined;
+    let cancelled = false;
+    fileStorage
+      .get(file.id)
+      .then((blob) => {
+        if (!blob || cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      // Without the contents the generic icon is shown instead.
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [file.id, file.type]);
+
+  return url ? (
+    <img src={url} alt={file.name} className="h-12 w-12 shrink-0 rounded object-cover" />
+  ) : (
+    <div className="flex h-12 w-12 shrink-0 items-center justify-center rounded bg-muted">
+      <FileIcon className="h-5 w-5 text-muted-foreground" />
+    </div>
+  );
+};
+
+interface FileUploadInputProps {
+  field: SpecialField;
+  files: UploadedFile[];
+  /** Receives an update of the current files, which may have changed during an upload. */
+  onChange: (update: (files: UploadedFile[]) => UploadedFile[]) => void;
+  invalid?: boolean;
+}
+
+const FileUploadInput = ({ field, files, onChange, invalid }: FileUploadInputProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const remaining = field.maxFiles === undefined ? Infinity : field.maxFiles - files.length;
+
+  const upload = async (selected: File[]) => {
+    const rejected = selected.map((file) => getFileError(field, file)).filter(Boolean);
+    let accepted = selected.filter((file) => !getFileError(field, file));
+    if (accepted.length > remaining) {
+      rejected.push(
+        `Only ${field.maxFiles} ${field.maxFiles === 1 ? 'file is' : 'files are'} allowed.`
+      );
+      accepted = accepted.slice(0, Math.max(0, remaining));
+    }
+    if (rejected.length > 0) {
+      toast({
+        title: 'Some Files Were Not Uploaded',
+        description: rejected.join(' '),
+        variant: 'destructive',
+      });
+    }
+    if (accepted.length === 0) return;
+
+    setUploading(true);
+    try {
+      const uploaded = await Promise.all(accepted.map((file) => fileStorage.put(file)));
+      onChange((current) => [...current, ...uploaded]);
+    } catch (error) {
+      toast({
+        title: 'Upload Failed',
+        description: error instanceof Error ? error.message : 'The files could not be stored.',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const removeFile = (file: UploadedFile) =>
+    onChange((current) => current.filter((other) => other.id !== file.id));
+
+  return (
+    <div className="space-y-2">
+      {files.map((file) => (
+        <div key={file.id} className="flex items-center gap-3 rounded-md border p-2">
+          <FileThumbnail file={file} />
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-sm font-medium">{file.name}</p>
+            <p className="text-xs text-muted-foreground">{formatFileSize(file.size)}</p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => removeFile(file)}
+            aria-label={`Remove ${file.name}`}
+            className="text-destructive hover:text-destructive"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {remaining > 0 && (
+        <Button
+          variant="outline"
+          className={invalid ? 'border-destructive' : undefined}
+          disabled={uploading}
+          onClick={() => inputRef.current?.click()}
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          {uploading ? 'Uploading...' : files.length > 0 ? 'Upload Another File' : 'Upload File'}
+        </Button>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        className="hidden"
+        accept={field.allowedMimeTypes?.join(',')}
+        multiple={remaining > 1}
+        onChange={(e) => {
+          const selected = Array.from(e.target.files ?? []);
+          e.target.value = '';
+          if (selected.length > 0) void upload(selected);
+        }}
+      />
+      <p className="text-xs text-muted-foreground">
+        {[
+          field.allowedMimeTypes?.length ? field.allowedMimeTypes.join(', ') : 'Any file type',
+          field.maxFileSizeMb !== undefined && `up to ${field.maxFileSizeMb} MB each`,
+          field.maxFiles !== undefined &&
+            `${field.maxFiles} ${field.maxFiles === 1 ? 'file' : 'files'} max`,
+        ]
+          .filter(Boolean)
+          .join(' · ')}
+      </p>
+    </div>
+  );
+};
+
+export default FileUploadInput;
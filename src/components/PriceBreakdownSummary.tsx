@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { cn } from '@/lib/utils';
+import { describePriceLine, formatCurrency, type PriceBreakdown, type PriceLine } from '@/lib/pricing';
+
+interface PriceBreakdownSummaryProps {
+  breakdown: PriceBreakdown;
+}
+
+const PriceLineRow = ({ line }: { line: PriceLine }) => (
+  <div className="flex justify-between gap-4 text-sm">
+    <span className="text-muted-foreground">
+      {line.label || 'Field Label'}: {describePriceLine(line)}
+    </span>
+    <span>{formatCurrency(line.amount)}</span>
+  </div>
+);
+
+const PriceBreakdownSummary = ({ breakdown }: PriceBreakdownSummaryProps) => {
+  const [showZeroCost, setShowZeroCost] = useState(false);
+
+  const chargedLines = breakdown.lines.filter((line) => line.amount !== 0);
+  const zeroCostLines = breakdown.lines.filter((line) => line.amount === 0);
+
+  return (
+    <div className="pt-4 border-t space-y-2">
+      <div className="flex justify-between text-sm">
+        <span>Base Price:</span>
+        <span>{formatCurrency(breakdown.basePrice)}</span>
+      </div>
+
+      {chargedLines.map((line) => (
+        <PriceLineRow key={line.fieldId} line={line} />
+      ))}
+
+      {zeroCostLines.length > 0 && (
+        <Collapsible open={showZeroCost} onOpenChange={setShowZeroCost}>
+          <CollapsibleTrigger className="flex items-center text-xs text-muted-foreground hover:text-foreground">
+            <ChevronDown
+              className={cn('h-3 w-3 mr-1 transition-transform', showZeroCost && 'rotate-180')}
+            />
+            {zeroCostLines.length} {zeroCostLines.length === 1 ? 'field' : 'fields'} with no charge
+          </CollapsibleTrigger>
+          <CollapsibleContent className="space-y-2 pt-2">
+            {zeroCostLines.map((line) => (
+              <PriceLineRow key={line.fieldId} line={line} />
+            ))}
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+
+      {breakdown.cap && (
+        <div className="flex justify-between gap-4 text-sm">
+          <span className="text-muted-foreground">
+            {breakdown.cap === 'minimum' ? 'Minimum order price' : 'Maximum order price'} of{' '}
+            {formatCurrency(breakdown.subtotal)} applied
+          </span>
+          <span>
+            {breakdown.subtotal > breakdown.uncappedSubtotal ? '+' : '−'}
+            {formatCurrency(Math.abs(breakdown.subtotal - breakdown.uncappedSubtotal))}
+          </span>
+        </div>
+      )}
+
+      <div className="flex justify-between text-lg font-bold text-primary">
+        <span>Total Price:</span>
+        <span>{formatCurrency(breakdown.subtotal)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default PriceBreakdownSummary;
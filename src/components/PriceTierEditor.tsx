@@ -0,0 +1,113 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import FieldError from '@/components/FieldError';
+import { describeTierRange } from '@/lib/price-tiers';
+import type { PriceTier } from '@/lib/product';
+import type { ProductValidationErrors } from '@/lib/product-schema';
+import { cn, generateId } from '@/lib/utils';
+
+interface PriceTierEditorProps {
+  tiers: PriceTier[];
+  /** Validation errors for the whole product, keyed by path. */
+  errors: ProductValidationErrors;
+  /** Path of the tier list within the product, e.g. `specialFields.0.priceTiers`. */
+  path: string;
+  /** `checkpoint` records the change as its own undo step (removals). */
+  onChange: (tiers: PriceTier[], options?: { checkpoint?: boolean }) => void;
+}
+
+const PriceTierEditor = ({ tiers, errors, path, onChange }: PriceTierEditorProps) => {
+  const invalidProps = (key: string) => ({
+    'aria-invalid': !!errors[key],
+    className: cn(errors[key] && 'border-destructive focus-visible:ring-destructive'),
+  });
+
+  const updateTier = (tierId: string, updates: Partial<PriceTier>) =>
+    onChange(tiers.map((tier) => (tier.id === tierId ? { ...tier, ...updates } : tier)));
+
+  const addTier = () => {
+    const last = tiers[tiers.length - 1];
+    onChange([
+      ...tiers,
+      {
+        id: generateId(),
+        minQuantity: last ? last.minQuantity + 10 : 1,
+        unitPrice: last?.unitPrice ?? 0,
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>
+          Price Tiers <span className="text-destructive">*</span>
+        </Label>
+        <Button variant="outline" size="sm" onClick={addTier}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Tier
+        </Button>
+      </div>
+
+      {tiers.map((tier, index) => (
+        <div key={tier.id} className="space-y-1">
+          <div className="flex items-center gap-2">
+            <div className="w-32 space-y-1">
+              <Label className="text-xs text-muted-foreground">From Quantity</Label>
+              <Input
+                type="number"
+                min="1"
+                value={tier.minQuantity || ''}
+                onChange={(e) =>
+                  updateTier(tier.id, { minQuantity: parseFloat(e.target.value) || 0 })
+                }
+                {...invalidProps(`${path}.${index}.minQuantity`)}
+              />
+            </div>
+            <div className="w-24 space-y-1">
+              <Label className="text-xs text-muted-foreground">Range</Label>
+              <p className="h-10 py-2 text-sm">{describeTierRange(tiers, tier)}</p>
+            </div>
+            <div className="flex-1 space-y-1">
+              <Label className="text-xs text-muted-foreground">Unit Price ($)</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="0"
+                value={tier.unitPrice || ''}
+                onChange={(e) =>
+                  updateTier(tier.id, { unitPrice: parseFloat(e.target.value) || 0 })
+                }
+                {...invalidProps(`${path}.${index}.unitPrice`)}
+              />
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="self-end text-destructive hover:text-destructive"
+              disabled={tiers.length === 1}
+              onClick={() =>
+                onChange(
+                  tiers.filter((other) => other.id !== tier.id),
+                  { checkpoint: true }
+                )
+              }
+              aria-label={`Remove tier ${describeTierRange(tiers, tier)}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <FieldError
+            message={errors[`${path}.${index}.minQuantity`] ?? errors[`${path}.${index}.unitPrice`]}
+          />
+        </div>
+      ))}
+      <FieldError message={errors[path]} />
+    </div>
+  );
+};
+
+export default PriceTierEditor;
@@ -0,0 +1,69 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import FieldError from '@/components/FieldError';
+import type { SpecialField } from '@/lib/product';
+import { cn } from '@/lib/utils';
+
+interface PricingFormulaEditorProps {
+  field: SpecialField;
+  /** Every special field of the product, offered as references. */
+  fields: SpecialField[];
+  error?: string;
+  onChange: (formula: string) => void;
+}
+
+const PricingFormulaEditor = ({ field, fields, error, onChange }: PricingFormulaEditorProps) => {
+  const formula = field.formula ?? '';
+  const insert = (text: string) =>
+    onChange(formula.trim() ? `${formula.trimEnd()} ${text}` : text);
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={`${field.id}-formula`}>
+        Pricing Formula <span className="text-destructive">*</span>
+      </Label>
+      <Input
+        id={`${field.id}-formula`}
+        placeholder="e.g., {Width} * {Height} * 0.05"
+        value={formula}
+        onChange={(e) => onChange(e.target.value)}
+        aria-invalid={!!error}
+        className={cn('font-mono', error && 'border-destructive focus-visible:ring-destructive')}
+      />
+      <FieldError message={error} />
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-xs text-muted-foreground mr-1">Insert:</span>
+        {fields
+          .filter((other) => other.label.trim())
+          .map((other) => (
+            <Button
+              key={other.id}
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => insert(`{${other.label.trim()}}`)}
+            >
+              {other.label.trim()}
+            </Button>
+          ))}
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => insert('basePrice')}
+        >
+          Base price
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Use + - * / % ^, parentheses and min, max, round, ceil, floor or abs. A field stands for
+        the number entered, the characters in its text, the price of the chosen option, 1 when
+        checked or dated, or the number of picked options or files. Negative results count as
+        $0.00.
+      </p>
+    </div>
+  );
+};
+
+export default PricingFormulaEditor;
@@ -0,0 +1,320 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  Copy,
+  Pencil,
+  Plus,
+  Search,
+  Settings,
+  Trash2,
+  Upload,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useDeleteProduct, useProducts } from '@/hooks/use-products';
+import { toast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/pricing';
+import type { StoredProduct } from '@/lib/product-repository';
+
+const PAGE_SIZE = 10;
+
+type SortColumn = 'name' | 'basePrice' | 'specialFields' | 'updatedAt';
+type SortDirection = 'asc' | 'desc';
+
+const sortValue = (stored: StoredProduct, column: SortColumn): string | number => {
+  switch (column) {
+    case 'name':
+      return stored.product.name.toLowerCase();
+    case 'basePrice':
+      return stored.product.basePrice;
+    case 'specialFields':
+      return stored.product.specialFields.length;
+    case 'updatedAt':
+      return stored.updatedAt;
+  }
+};
+
+interface SortableHeadProps {
+  column: SortColumn;
+  sortColumn: SortColumn;
+  sortDirection: SortDirection;
+  onSort: (column: SortColumn) => void;
+  children: React.ReactNode;
+}
+
+const SortableHead = ({ column, sortColumn, sortDirection, onSort, children }: SortableHeadProps) => {
+  const Icon = column !== sortColumn ? ArrowUpDown : sortDirection === 'asc' ? ArrowUp : ArrowDown;
+  return (
+    <TableHead>
+      <Button variant="ghost" size="sm" className="-ml-3" onClick={() => onSort(column)}>
+        {children}
+        <Icon className="h-4 w-4 ml-2" />
+      </Button>
+    </TableHead>
+  );
+};
+
+const ProductCatalog = () => {
+  const { data: products = [], isLoading } = useProducts();
+  const [search, setSearch] = useState('');
+  const [sortColumn, setSortColumn] = useState<SortColumn>('updatedAt');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [page, setPage] = useState(1);
+  const [pendingDelete, setPendingDelete] = useState<StoredProduct>();
+  const deleteMutation = useDeleteProduct();
+
+  const visibleProducts = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const filtered = query
+      ? products.filter(
+          ({ product }) =>
+            product.name.toLowerCase().includes(query) ||
+            product.description.toLowerCase().includes(query)
+        )
+      : products;
+
+    return [...filtered].sort((a, b) => {
+      const left = sortValue(a, sortColumn);
+      const right = sortValue(b, sortColumn);
+      const order = left < right ? -1 : left > right ? 1 : 0;
+      return sortDirection === 'asc' ? order : -order;
+    });
+  }, [products, search, sortColumn, sortDirection]);
+
+  const pageCount = Math.max(1, Math.ceil(visibleProducts.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount);
+  const pageProducts = visibleProducts.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+
+  const toggleSort = (column: SortColumn) => {
+    if (column === sortColumn) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortColumn(column);
+      setSortDirection('asc');
+    }
+  };
+
+  const sortProps = { sortColumn, sortDirection, onSort: toggleSort };
+
+  const deleteProduct = (stored: StoredProduct) => {
+    deleteMutation.mutate(stored.id, {
+      onSuccess: () => {
+        toast({
+          title: 'Product Deleted',
+          description: `"${stored.product.name}" has been deleted.`,
+        });
+      },
+      onError: (error) => {
+        toast({
+          title: 'Delete Failed',
+          description:
+            error instanceof Error ? error.message : 'The product could not be deleted.',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
+
+  const goToPage = (event: React.MouseEvent, target: number) => {
+    event.preventDefault();
+    setPage(Math.min(Math.max(target, 1), pageCount));
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="mx-auto max-w-5xl space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Product Catalog</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Browse and manage your saved products
+            </p>
+          </div>
+          <div className="flex space-x-3">
+            <Button variant="outline" asChild>
+              <Link to="/settings">
+                <Settings className="h-4 w-4 mr-2" />
+                Settings
+              </Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to="/products/import">
+                <Upload className="h-4 w-4 mr-2" />
+                Import CSV
+              </Link>
+            </Button>
+            <Button variant="black" asChild>
+              <Link to="/products/new">
+                <Plus className="h-4 w-4 mr-2" />
+                New Product
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle>Products</CardTitle>
+              <div className="relative w-64">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search products"
+                  className="pl-8"
+                  value={search}
+                  onChange={(e) => {
+                    setSearch(e.target.value);
+                    setPage(1);
+                  }}
+                />
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <SortableHead column="name" {...sortProps}>Name</SortableHead>
+                  <SortableHead column="basePrice" {...sortProps}>Base Price</SortableHead>
+                  <SortableHead column="specialFields" {...sortProps}>Special Fields</SortableHead>
+                  <SortableHead column="updatedAt" {...sortProps}>Last Modified</SortableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pageProducts.map((stored) => (
+                  <TableRow key={stored.id}>
+                    <TableCell className="font-medium">
+                      <Link to={`/products/${stored.id}/edit`} className="hover:underline">
+                        {stored.product.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{formatCurrency(stored.product.basePrice)}</TableCell>
+                    <TableCell>{stored.product.specialFields.length}</TableCell>
+                    <TableCell>{format(new Date(stored.updatedAt), 'PP p')}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" asChild title="Edit">
+                        <Link to={`/products/${stored.id}/edit`}>
+                          <Pencil className="h-4 w-4" />
+                        </Link>
+                      </Button>
+                      <Button variant="ghost" size="icon" asChild title="Duplicate">
+                        <Link to={`/products/new?from=${stored.id}`}>
+                          <Copy className="h-4 w-4" />
+                        </Link>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => setPendingDelete(stored)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {pageProducts.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">
+                      {isLoading
+                        ? 'Loading products...'
+                        : search
+                          ? 'No products match your search.'
+                          : 'No products saved yet.'}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+
+            {pageCount > 1 && (
+              <Pagination>
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious href="#" onClick={(e) => goToPage(e, currentPage - 1)} />
+                  </PaginationItem>
+                  {Array.from({ length: pageCount }, (_, index) => index + 1).map((target) => (
+                    <PaginationItem key={target}>
+                      <PaginationLink
+                        href="#"
+                        isActive={target === currentPage}
+                        onClick={(e) => goToPage(e, target)}
+                      >
+                        {target}
+                      </PaginationLink>
+                    </PaginationItem>
+                  ))}
+                  <PaginationItem>
+                    <PaginationNext href="#" onClick={(e) => goToPage(e, currentPage + 1)} />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog
+        open={!!pendingDelete}
+        onOpenChange={(open) => {
+          if (!open) setPendingDelete(undefined);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete product?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.product.name}" and its version history will be removed from the
+              catalog. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => deleteProduct(pendingDelete)}
+            >
+              Delete Product
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ProductCatalog;
@@ -0,0 +1,396 @@
+import { useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import FieldError from '@/components/FieldError';
+import { ProductImportError, useImportProducts } from '@/hooks/use-products';
+import { useStoreSettings } from '@/hooks/use-store-settings';
+import { toast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/pricing';
+import {
+  FIELD_CSV_COLUMNS,
+  PRODUCT_CSV_COLUMNS,
+  autoMapColumns,
+  buildCsvImportPreview,
+  missingRequiredColumns,
+  readCsvTable,
+  type CsvColumn,
+  type CsvColumnMapping,
+  type CsvTable,
+} from '@/lib/product-csv';
+
+type Step = 'upload' | 'map' | 'preview';
+
+const UNMAPPED = 'none';
+
+interface ColumnMappingTableProps {
+  columns: CsvColumn[];
+  headers: string[];
+  mapping: CsvColumnMapping;
+  onChange: (mapping: CsvColumnMapping) => void;
+}
+
+const ColumnMappingTable = ({ columns, headers, mapping, onChange }: ColumnMappingTableProps) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>Column</TableHead>
+        <TableHead>CSV Header</TableHead>
+        <TableHead>Notes</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {columns.map((column) => (
+        <TableRow key={column.key}>
+          <TableCell className="font-medium">
+            {column.label}
+            {column.required && <span className="text-destructive"> *</span>}
+          </TableCell>
+          <TableCell className="w-56">
+            <Select
+              value={mapping[column.key] === undefined ? UNMAPPED : String(mapping[column.key])}
+              onValueChange={(value) =>
+                onChange({
+                  ...mapping,
+                  [column.key]: value === UNMAPPED ? undefined : Number(value),
+                })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                {headers.map((header, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    {header || `Column ${index + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </TableCell>
+          <TableCell className="text-sm text-muted-foreground">{column.description}</TableCell>
+        </TableRow>
+      ))}
+    </TableBody>
+  </Table>
+);
+
+const missingColumnsMessage = (missing: CsvColumn[]) =>
+  missing.length > 0
+    ? `Map the required ${missing.length === 1 ? 'column' : 'columns'}: ${missing
+        .map((column) => column.label)
+        .join(', ')}.`
+    : undefined;
+
+const ProductCsvImport = () => {
+  const navigate = useNavigate();
+  const { maxSpecialFields, authorName } = useStoreSettings();
+  const importMutation = useImportProducts();
+  const [step, setStep] = useState<Step>('upload');
+  const [productsTable, setProductsTable] = useState<CsvTable>();
+  const [fieldsTable, setFieldsTable] = useState<CsvTable>();
+  const [productMapping, setProductMapping] = useState<CsvColumnMapping>({});
+  const [fieldMapping, setFieldMapping] = useState<CsvColumnMapping>({});
+
+  const readFile = async (
+    file: File | undefined,
+    columns: CsvColumn[],
+    setTable: (table: CsvTable) => void,
+    setMapping: (mapping: CsvColumnMapping) => void
+  ) => {
+    if (!file) return;
+    const table = readCsvTable(await file.text());
+    if (table.headers.length === 0) {
+      toast({
+        title: 'Empty File',
+        description: `${file.name} does not contain a header row.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    setTable(table);
+    setMapping(autoMapColumns(table.headers, columns));
+  };
+
+  const missingProductColumns = missingRequiredColumns(productMapping, PRODUCT_CSV_COLUMNS);
+  const missingFieldColumns = fieldsTable
+    ? missingRequiredColumns(fieldMapping, FIELD_CSV_COLUMNS)
+    : [];
+  const mappingComplete = missingProductColumns.length === 0 && missingFieldColumns.length === 0;
+
+  const preview = useMemo(
+    () =>
+      step === 'preview'
+        ? buildCsvImportPreview(productsTable, productMapping, fieldsTable, fieldMapping, {
+            maxSpecialFields,
+          })
+        : undefined,
+    [step, productsTable, productMapping, fieldsTable, fieldMapping, maxSpecialFields]
+  );
+  const validRows = preview?.rows.filter((row) => row.errors.length === 0) ?? [];
+  const invalidCount = (preview?.rows.length ?? 0) - validRows.length;
+
+  const commitImport = () => {
+    importMutation.mutate(
+      { products: validRows.map((row) => row.product), author: authorName },
+      {
+        onSuccess: (created) => {
+          toast({
+            title: 'Products Imported',
+            description: `${created.length} ${
+              created.length === 1 ? 'product was' : 'products were'
+            } added to the catalog.`,
+          });
+          navigate('/products');
+        },
+        onError: (error) => {
+          const created = error instanceof ProductImportError ? error.created.length : 0;
+          toast({
+            title: 'Import Failed',
+            description: `${error.message} ${created} ${
+              created === 1 ? 'product was' : 'products were'
+            } added to the catalog before the failure.`,
+            variant: 'destructive',
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="mx-auto max-w-5xl space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Import Products</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Create products in bulk from CSV files
+            </p>
+          </div>
+          <Button variant="outline" asChild>
+            <Link to="/products">View Catalog</Link>
+          </Button>
+        </div>
+
+        {step === 'upload' && (
+          <Card>
+            <CardHeader>
+              <CardTitle>1. Choose Files</CardTitle>
+              <CardDescription>
+                The products file has one row per product. The optional fields file has one row
+                per special field, linked to its product by key; repeat a dropdown field&apos;s row
+                once per option.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="productsCsv">
+                    Products CSV <span className="text-destructive">*</span>
+                  </Label>
+                  <Input
+                    id="productsCsv"
+                    type="file"
+                    accept="text/csv,.csv"
+                    onChange={(e) =>
+                      void readFile(
+                        e.target.files?.[0],
+                        PRODUCT_CSV_COLUMNS,
+                        setProductsTable,
+                        setProductMapping
+                      )
+                    }
+                  />
+                  {productsTable && (
+                    <p className="text-xs text-muted-foreground">
+                      {productsTable.rows.length} rows found
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fieldsCsv">Special Fields CSV</Label>
+                  <Input
+                    id="fieldsCsv"
+                    type="file"
+                    accept="text/csv,.csv"
+                    onChange={(e) =>
+                      void readFile(
+                        e.target.files?.[0],
+                        FIELD_CSV_COLUMNS,
+                        setFieldsTable,
+                        setFieldMapping
+                      )
+                    }
+                  />
+                  {fieldsTable && (
+                    <p className="text-xs text-muted-foreground">
+                      {fieldsTable.rows.length} rows found
+                    </p>
+                  )}
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button variant="black" disabled={!productsTable} onClick={() => setStep('map')}>
+                  Continue
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === 'map' && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>2. Map Product Columns</CardTitle>
+                <CardDescription>Choose which CSV header holds each product property</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <ColumnMappingTable
+                  columns={PRODUCT_CSV_COLUMNS}
+                  headers={productsTable.headers}
+                  mapping={productMapping}
+                  onChange={setProductMapping}
+                />
+                <FieldError message={missingColumnsMessage(missingProductColumns)} />
+              </CardContent>
+            </Card>
+
+            {fieldsTable && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Map Special Field Columns</CardTitle>
+                  <CardDescription>
+                    Choose which CSV header holds each special field property
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <ColumnMappingTable
+                    columns={FIELD_CSV_COLUMNS}
+                    headers={fieldsTable.headers}
+                    mapping={fieldMapping}
+                    onChange={setFieldMapping}
+                  />
+                  <FieldError message={missingColumnsMessage(missingFieldColumns)} />
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={() => setStep('upload')}>
+                Back
+              </Button>
+              <Button variant="black" disabled={!mappingComplete} onClick={() => setStep('preview')}>
+                Preview Import
+              </Button>
+            </div>
+          </>
+        )}
+
+        {step === 'preview' && preview && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>3. Review</CardTitle>
+                <CardDescription>
+                  Nothing has been saved yet. {validRows.length} of {preview.rows.length} products
+                  are ready to import
+                  {invalidCount > 0 && `; ${invalidCount} with errors will be skipped`}.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {preview.errors.length > 0 && (
+                  <ul className="list-disc space-y-1 rounded-md border border-destructive/50 p-3 pl-8 text-sm text-destructive">
+                    {preview.errors.map((error, index) => (
+                      <li key={index}>{error}</li>
+                    ))}
+                  </ul>
+                )}
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Line</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Base Price</TableHead>
+                      <TableHead>Special Fields</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map((row) => (
+                      <TableRow key={row.line}>
+                        <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                        <TableCell className="font-medium">{row.product.name}</TableCell>
+                        <TableCell>{formatCurrency(row.product.basePrice)}</TableCell>
+                        <TableCell>
+                          {row.product.specialFieldsEnabled
+                            ? row.product.specialFields.length
+                            : 'Disabled'}
+                        </TableCell>
+                        <TableCell>
+                          {row.errors.length === 0 ? (
+                            <Badge variant="secondary">Ready</Badge>
+                          ) : (
+                            <ul className="space-y-1 text-sm text-destructive">
+                              {row.errors.map((error, index) => (
+                                <li key={index}>{error}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    {preview.rows.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">
+                          The products file has no rows.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={() => setStep('map')}>
+                Back
+              </Button>
+              <Button
+                variant="black"
+                disabled={validRows.length === 0 || importMutation.isPending}
+                onClick={commitImport}
+              >
+                {importMutation.isPending
+                  ? 'Importing...'
+                  : `Import ${validRows.length} ${validRows.length === 1 ? 'Product' : 'Products'}`}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProductCsvImport;
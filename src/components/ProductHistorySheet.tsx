@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { useProductVersions } from '@/hooks/use-products';
+import type { ProductData } from '@/lib/product';
+import { describeChange, diffProducts, type ProductChange } from '@/lib/product-diff';
+import type { ProductVersion } from '@/lib/product-repository';
+
+interface ProductHistorySheetProps {
+  productId: string;
+  /** Configuration currently in the editor, for "compare with editor". */
+  currentProduct: ProductData;
+  onRestore: (version: ProductVersion) => void;
+}
+
+const ChangeList = ({ changes, empty }: { changes: ProductChange[]; empty: string }) =>
+  changes.length === 0 ? (
+    <p className="text-sm text-muted-foreground">{empty}</p>
+  ) : (
+    <ul className="list-disc space-y-1 pl-5 text-sm">
+      {changes.map((change, index) => (
+        <li key={index}>{describeChange(change)}</li>
+      ))}
+    </ul>
+  );
+
+const ProductHistorySheet = ({ productId, currentProduct, onRestore }: ProductHistorySheetProps) => {
+  const [open, setOpen] = useState(false);
+  const [comparingId, setComparingId] = useState<string>();
+  const { data: versions = [] } = useProductVersions(productId);
+  const latestVersion = versions[versions.length - 1]?.version;
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline">
+          <History className="h-4 w-4 mr-2" />
+          History
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex w-full flex-col sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Version History</SheetTitle>
+          <SheetDescription>Every save creates a new version of this product.</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          <div className="space-y-4 pb-6">
+            {versions.length === 0 && (
+              <p className="text-sm text-muted-foreground">No versions have been saved yet.</p>
+            )}
+            {[...versions].reverse().map((version) => {
+              const previous = versions.find((v) => v.version === version.version - 1);
+              const comparing = comparingId === version.id;
+
+              return (
+                <div key={version.id} className="space-y-3 rounded-lg border p-4">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-semibold">
+                        Version {version.version}
+                        {version.version === latestVersion && (
+                          <Badge variant="secondary" className="ml-2">
+                            Current
+                          </Badge>
+                        )}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(version.createdAt), 'PP p')} by{' '}
+                        {version.author || 'Unknown author'}
+                      </p>
+                    </div>
+                    <div className="flex space-x-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setComparingId(comparing ? undefined : version.id)}
+                      >
+                        {comparing ? 'Hide Comparison' : 'Compare'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          onRestore(version);
+                          setOpen(false);
+                        }}
+                      >
+                        Restore
+                      </Button>
+                    </div>
+                  </div>
+
+                  {previous ? (
+                    <ChangeList
+                      changes={diffProducts(previous.product, version.product)}
+                      empty="No changes from the previous version."
+                    />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Initial version.</p>
+                  )}
+
+                  {comparing && (
+                    <div className="space-y-2 rounded-md bg-muted/50 p-3">
+                      <p className="text-sm font-medium">Changes in the editor since this version</p>
+                      <ChangeList
+                        changes={diffProducts(version.product, currentProduct)}
+                        empty="The editor matches this version."
+                      />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ProductHistorySheet;
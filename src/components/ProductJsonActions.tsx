@@ -0,0 +1,109 @@
+import { useRef, useState } from 'react';
+import { Download, FileJson, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useStoreSettings } from '@/hooks/use-store-settings';
+import type { ProductData } from '@/lib/product';
+import { parseProductJson, serializeProduct, type ProductImportSuccess } from '@/lib/product-transfer';
+
+interface ProductJsonActionsProps {
+  product: ProductData;
+  onImport: (result: ProductImportSuccess) => void;
+}
+
+const toFileName = (name: string) =>
+  `${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'product'}.json`;
+
+const ProductJsonActions = ({ product, onImport }: ProductJsonActionsProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const { maxSpecialFields } = useStoreSettings();
+
+  const exportJson = () => {
+    const blob = new Blob([serializeProduct(product)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = toFileName(product.name);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importJson = async (file: File) => {
+    const result = parseProductJson(await file.text(), { maxSpecialFields });
+    if (result.status === 'success') {
+      onImport(result);
+    } else {
+      setImportErrors(result.errors);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">
+            <FileJson className="h-4 w-4 mr-2" />
+            JSON
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={exportJson}>
+            <Download className="h-4 w-4 mr-2" />
+            Export JSON
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import JSON
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) void importJson(file);
+        }}
+      />
+
+      <Dialog open={importErrors.length > 0} onOpenChange={(open) => !open && setImportErrors([])}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Import Failed</DialogTitle>
+            <DialogDescription>
+              The file could not be imported. Fix the following{' '}
+              {importErrors.length === 1 ? 'problem' : `${importErrors.length} problems`} and try
+              again.
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-80">
+            <ul className="list-disc space-y-1 pl-5 text-sm text-destructive">
+              {importErrors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ProductJsonActions;
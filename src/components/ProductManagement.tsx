@@ -1,59 +1,117 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Trash2, Plus, Eye, GripVertical } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ToastAction } from '@/components/ui/toast';
+import { Plus, Redo2, Undo2 } from 'lucide-react';
+import CustomerPreview from '@/components/CustomerPreview';
+import FieldError from '@/components/FieldError';
+import ProductHistorySheet from '@/components/ProductHistorySheet';
+import ProductJsonActions from '@/components/ProductJsonActions';
+import SpecialFieldCard from '@/components/SpecialFieldCard';
+import UnsavedChangesDialog from '@/components/UnsavedChangesDialog';
+import { useDragReorder } from '@/hooks/use-drag-reorder';
+import { useSaveProduct } from '@/hooks/use-products';
+import { useStoreSettings } from '@/hooks/use-store-settings';
 import { toast } from '@/hooks/use-toast';
-
-type FieldType = 'text' | 'number' | 'dropdown';
-type PricingModel = 'base' | 'perCharacter' | 'perUnit';
-
-interface DropdownOption {
-  id: string;
-  name: string;
-  price: number;
-}
-
-interface SpecialField {
-  id: string;
-  label: string;
-  type: FieldType;
-  pricingModel: PricingModel;
-  price: number;
-  minLength?: number;
-  maxLength?: number;
-  minValue?: number;
-  maxValue?: number;
-  dropdownOptions?: DropdownOption[];
+import { useUndoableState } from '@/hooks/use-undoable-state';
+import { useUploadCleanup } from '@/hooks/use-upload-cleanup';
+import { useUnsavedChanges } from '@/hooks/use-unsaved-changes';
+import { createVisibilityRule } from '@/lib/field-visibility';
+import { renameFormulaReference } from '@/lib/formula';
+import {
+  createEmptyProduct,
+  type CustomerValues,
+  type ProductData,
+  type SpecialField,
+} from '@/lib/product';
+import type { ProductVersion } from '@/lib/product-repository';
+import { validateProduct, type ProductValidationErrors } from '@/lib/product-schema';
+import type { ProductImportSuccess } from '@/lib/product-transfer';
+import { cn, moveItem } from '@/lib/utils';
+
+interface ProductManagementProps {
+  /** Id of the stored product being edited; omitted when creating a new product. */
+  productId?: string;
+  /** Configuration to start from, e.g. a stored product or a duplicate of one. */
+  initialProduct?: ProductData;
 }
 
-interface ProductData {
-  name: string;
-  description: string;
-  basePrice: number;
-  specialFieldsEnabled: boolean;
-  specialFields: SpecialField[];
-}
-
-interface CustomerValues {
-  [key: string]: string | number;
-}
+const ProductManagement = ({ productId: initialProductId, initialProduct }: ProductManagementProps) => {
+  const navigate = useNavigate();
+  const {
+    state: product,
+    set: setProduct,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useUndoableState<ProductData>(() => initialProduct ?? createEmptyProduct());
+  // Last persisted configuration; a duplicate starts out unsaved.
+  const [savedProduct, setSavedProduct] = useState<ProductData>(() =>
+    initialProductId && initialProduct ? initialProduct : createEmptyProduct()
+  );
 
-const ProductManagement = () => {
-  const [product, setProduct] = useState<ProductData>({
-    name: '',
-    description: '',
-    basePrice: 0,
-    specialFieldsEnabled: false,
-    specialFields: [],
+  const [productId, setProductId] = useState(initialProductId);
+  const [customerValues, setCustomerValues] = useState<CustomerValues>({});
+  useUploadCleanup(customerValues);
+  const saveMutation = useSaveProduct();
+  const { maxSpecialFields, authorName } = useStoreSettings();
+  const [collapsedFieldIds, setCollapsedFieldIds] = useState<Set<string>>(() => new Set());
+
+  // Errors are only surfaced after the first save attempt, then kept live as the user fixes them.
+  const [showValidation, setShowValidation] = useState(false);
+  const errors: ProductValidationErrors = showValidation
+    ? validateProduct(product, { maxSpecialFields })
+    : {};
+
+  const invalidProps = (path: string) => ({
+    'aria-invalid': !!errors[path],
+    className: cn(errors[path] && 'border-destructive focus-visible:ring-destructive'),
   });
 
-  const [customerValues, setCustomerValues] = useState<CustomerValues>({});
+  const isDirty = JSON.stringify(product) !== JSON.stringify(savedProduct);
+  const blocker = useUnsavedChanges(isDirty);
+
+  useEffect(() => {
+    if (productId && productId !== initialProductId) {
+      navigate(`/products/${productId}/edit`, { replace: true });
+    }
+  }, [productId, initialProductId, navigate]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      // Text inputs keep the browser's own undo for what is being typed.
+      const { target } = event;
+      if (
+        target instanceof Element &&
+        target.closest('input, textarea, [contenteditable]:not([contenteditable="false"])')
+      ) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const undoAction = (
+    <ToastAction altText="Undo" onClick={undo}>
+      Undo
+    </ToastAction>
+  );
 
   const loadExample = () => {
     const exampleProduct: ProductData = {
@@ -84,21 +142,29 @@ const ProductManagement = () => {
             { id: 'opt4', name: 'XL', price: 6 },
           ],
         },
+        {
+          id: '3',
+          label: 'Gift Wrap',
+          type: 'checkbox',
+          pricingModel: 'base',
+          price: 3,
+        },
       ],
     };
-    setProduct(exampleProduct);
+    setProduct(exampleProduct, { checkpoint: true });
     setCustomerValues({});
     toast({
       title: 'Example Loaded',
       description: 'Sample product configuration has been loaded.',
+      action: undoAction,
     });
   };
 
   const addSpecialField = () => {
-    if (product.specialFields.length >= 4) {
+    if (product.specialFields.length >= maxSpecialFields) {
       toast({
         title: 'Maximum Reached',
-        description: 'You can only add up to 4 special fields.',
+        description: `You can only add up to ${maxSpecialFields} special fields.`,
         variant: 'destructive',
       });
       return;
@@ -119,204 +185,184 @@ const ProductManagement = () => {
   };
 
   const removeSpecialField = (id: string) => {
-    setProduct({
-      ...product,
-      specialFields: product.specialFields.filter((field) => field.id !== id),
-    });
+    const removed = product.specialFields.find((field) => field.id === id);
+    setProduct(
+      {
+        ...product,
+        // Fields that were only shown depending on the removed one become always visible.
+        specialFields: product.specialFields
+          .filter((field) => field.id !== id)
+          .map((field) =>
+            field.visibleWhen?.fieldId === id ? { ...field, visibleWhen: undefined } : field
+          ),
+      },
+      { checkpoint: true }
+    );
     const newCustomerValues = { ...customerValues };
     delete newCustomerValues[id];
     setCustomerValues(newCustomerValues);
-  };
-
-  const updateSpecialField = (id: string, updates: Partial<SpecialField>) => {
-    setProduct({
-      ...product,
-      specialFields: product.specialFields.map((field) =>
-        field.id === id ? { ...field, ...updates } : field
-      ),
+    toast({
+      title: 'Special Field Removed',
+      description: `"${removed?.label || 'Untitled'}" has been removed.`,
+      action: undoAction,
     });
   };
 
-  const addDropdownOption = (fieldId: string) => {
-    const field = product.specialFields.find((f) => f.id === fieldId);
-    if (!field || !field.dropdownOptions) return;
-
-    const newOption: DropdownOption = {
-      id: Date.now().toString(),
-      name: '',
-      price: 0,
-    };
+  const setFieldExpanded = (id: string, expanded: boolean) => {
+    const next = new Set(collapsedFieldIds);
+    if (expanded) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setCollapsedFieldIds(next);
+  };
 
-    updateSpecialField(fieldId, {
-      dropdownOptions: [...field.dropdownOptions, newOption],
-    });
+  const moveSpecialField = (from: number, to: number) => {
+    setProduct(
+      { ...product, specialFields: moveItem(product.specialFields, from, to) },
+      { checkpoint: true }
+    );
   };
 
-  const removeDropdownOption = (fieldId: string, optionId: string) => {
-    const field = product.specialFields.find((f) => f.id === fieldId);
-    if (!field || !field.dropdownOptions) return;
+  const fieldReorder = useDragReorder(product.specialFields.length, moveSpecialField);
 
-    updateSpecialField(fieldId, {
-      dropdownOptions: field.dropdownOptions.filter((opt) => opt.id !== optionId),
-    });
+  const updateSpecialField = (
+    id: string,
+    updates: Partial<SpecialField>,
+    options?: { checkpoint?: boolean }
+  ) => {
+    const previous = product.specialFields.find((field) => field.id === id);
+    const updated = { ...previous, ...updates };
+    setProduct(
+      {
+        ...product,
+        specialFields: product.specialFields.map((field) => {
+          let next = field.id === id ? updated : field;
+          // A new type needs a different condition, so reset rules that depend on this field.
+          if (updates.type && next.visibleWhen?.fieldId === id) {
+            next = { ...next, visibleWhen: createVisibilityRule(updated) };
+          }
+          return next;
+        }),
+      },
+      options
+    );
+    // A value entered for the old type does not fit the new one.
+    if (updates.type && updates.type !== previous.type && id in customerValues) {
+      const newCustomerValues = { ...customerValues };
+      delete newCustomerValues[id];
+      setCustomerValues(newCustomerValues);
+    }
   };
 
-  const updateDropdownOption = (
-    fieldId: string,
-    optionId: string,
-    updates: Partial<DropdownOption>
-  ) => {
-    const field = product.specialFields.find((f) => f.id === fieldId);
-    if (!field || !field.dropdownOptions) return;
+  /** Points formula references at a field's new label once its label edit is finished. */
+  const renameSpecialField = (id: string, previousLabel: string) => {
+    const from = previousLabel.trim();
+    const to = product.specialFields.find((field) => field.id === id)?.label.trim();
+    // Only rewrite references that can only have meant this field.
+    const isUsedElsewhere = (label: string) =>
+      product.specialFields.some(
+        (field) => field.id !== id && field.label.trim().toLowerCase() === label.toLowerCase()
+      );
+    if (!from || !to || isUsedElsewhere(from) || isUsedElsewhere(to)) return;
+    if (!product.specialFields.some((field) => field.formula)) return;
 
-    updateSpecialField(fieldId, {
-      dropdownOptions: field.dropdownOptions.map((opt) =>
-        opt.id === optionId ? { ...opt, ...updates } : opt
+    setProduct({
+      ...product,
+      specialFields: product.specialFields.map((field) =>
+        field.formula
+          ? { ...field, formula: renameFormulaReference(field.formula, from, to) }
+          : field
       ),
     });
   };
 
-  const calculateTotalPrice = (): number => {
-    let total = product.basePrice;
-
-    product.specialFields.forEach((field) => {
-      const value = customerValues[field.id];
-
-      if (field.type === 'text' && value && typeof value === 'string') {
-        if (field.pricingModel === 'perCharacter') {
-          total += value.length * field.price;
-        } else if (field.pricingModel === 'base') {
-          total += field.price;
-        }
-      } else if (field.type === 'number' && value && typeof value === 'number') {
-        if (field.pricingModel === 'perUnit') {
-          total += value * field.price;
-        } else if (field.pricingModel === 'base') {
-          total += field.price;
-        }
-      } else if (field.type === 'dropdown' && value) {
-        const option = field.dropdownOptions?.find((opt) => opt.id === value);
-        if (option) {
-          total += option.price;
-        }
-      }
-    });
-
-    return total;
-  };
-
-  const validateProduct = (): boolean => {
-    if (!product.name.trim()) {
-      toast({
-        title: 'Validation Error',
-        description: 'Product name is required.',
-        variant: 'destructive',
-      });
-      return false;
-    }
-
-    if (product.basePrice < 0) {
+  const saveProduct = () => {
+    const validationErrors = validateProduct(product, { maxSpecialFields });
+    const errorCount = Object.keys(validationErrors).length;
+    if (errorCount > 0) {
+      setShowValidation(true);
       toast({
         title: 'Validation Error',
-        description: 'Base price must be greater than or equal to 0.',
+        description: `Please fix the ${errorCount} highlighted ${
+          errorCount === 1 ? 'problem' : 'problems'
+        } before saving.`,
         variant: 'destructive',
       });
-      return false;
+      return;
     }
 
-    if (product.specialFieldsEnabled) {
-      const labels = product.specialFields.map((f) => f.label.trim().toLowerCase());
-      const uniqueLabels = new Set(labels);
-
-      if (labels.some((l) => !l)) {
-        toast({
-          title: 'Validation Error',
-          description: 'All special field labels are required.',
-          variant: 'destructive',
-        });
-        return false;
-      }
-
-      if (labels.length !== uniqueLabels.size) {
-        toast({
-          title: 'Validation Error',
-          description: 'Special field labels must be unique.',
-          variant: 'destructive',
-        });
-        return false;
-      }
-
-      for (const field of product.specialFields) {
-        if (field.price < 0) {
+    saveMutation.mutate(
+      { id: productId, product, author: authorName },
+      {
+        onSuccess: (stored) => {
+          setSavedProduct(stored.product);
+          setShowValidation(false);
+          setProductId(stored.id);
+          toast({
+            title: 'Product Saved',
+            description: 'Product configuration has been saved successfully.',
+          });
+        },
+        onError: (error) => {
           toast({
-            title: 'Validation Error',
-            description: 'All prices must be greater than or equal to 0.',
+            title: 'Save Failed',
+            description: error instanceof Error ? error.message : 'The product could not be saved.',
             variant: 'destructive',
           });
-          return false;
-        }
-
-        if (field.type === 'dropdown' && field.dropdownOptions) {
-          const optionNames = field.dropdownOptions
-            .map((opt) => opt.name.trim().toLowerCase())
-            .filter((n) => n);
-          const uniqueOptionNames = new Set(optionNames);
-
-          if (field.dropdownOptions.some((opt) => !opt.name.trim())) {
-            toast({
-              title: 'Validation Error',
-              description: 'All dropdown option names are required.',
-              variant: 'destructive',
-            });
-            return false;
-          }
-
-          if (optionNames.length !== uniqueOptionNames.size) {
-            toast({
-              title: 'Validation Error',
-              description: 'Dropdown option names must be unique within the same field.',
-              variant: 'destructive',
-            });
-            return false;
-          }
-
-          if (field.dropdownOptions.some((opt) => opt.price < 0)) {
-            toast({
-              title: 'Validation Error',
-              description: 'All dropdown option prices must be greater than or equal to 0.',
-              variant: 'destructive',
-            });
-            return false;
-          }
-        }
+        },
       }
-    }
-
-    return true;
+    );
   };
 
-  const saveProduct = () => {
-    if (!validateProduct()) return;
+  const restoreVersion = (version: ProductVersion) => {
+    setProduct(version.product, { checkpoint: true });
+    setCustomerValues({});
+    toast({
+      title: 'Version Restored',
+      description: `Version ${version.version} has been loaded into the editor. Save to keep it.`,
+      action: undoAction,
+    });
+  };
 
-    console.log('Product Configuration:', product);
+  const importProduct = ({
+    product: imported,
+    regeneratedIds,
+    migratedFrom,
+  }: ProductImportSuccess) => {
+    setProduct(imported, { checkpoint: true });
+    setCustomerValues({});
+    const notes = [
+      migratedFrom !== undefined && `Migrated from schema version ${migratedFrom}.`,
+      regeneratedIds > 0 &&
+        `Regenerated ${regeneratedIds} conflicting ${regeneratedIds === 1 ? 'ID' : 'IDs'}.`,
+    ].filter(Boolean);
     toast({
-      title: 'Product Saved',
-      description: 'Product configuration has been saved successfully.',
+      title: 'Product Imported',
+      description: ['The configuration has been loaded into the editor.', ...notes].join(' '),
+      action: undoAction,
     });
   };
 
   const resetForm = () => {
-    setProduct({
-      name: '',
-      description: '',
-      basePrice: 0,
-      specialFieldsEnabled: false,
-      specialFields: [],
-    });
     setCustomerValues({});
+    setShowValidation(false);
+    if (productId) {
+      setProduct(savedProduct, { checkpoint: true });
+      toast({
+        title: 'Changes Discarded',
+        description: 'The last saved configuration has been restored.',
+        action: undoAction,
+      });
+      return;
+    }
+
+    setProduct(createEmptyProduct(), { checkpoint: true });
     toast({
       title: 'Form Reset',
       description: 'All fields have been cleared.',
+      action: undoAction,
     });
   };
 
@@ -326,14 +372,57 @@ const ProductManagement = () => {
         {/* Header */}
         <div className="flex items-center justify-between">
           <div>
-            <h1 className="text-3xl font-bold text-foreground">Product Management</h1>
+            <h1 className="text-3xl font-bold text-foreground">
+              {productId ? 'Edit Product' : 'New Product'}
+            </h1>
             <p className="text-sm text-muted-foreground mt-1">
               Configure your product with customizable special fields
+              {isDirty && <span className="ml-2 text-amber-600">• Unsaved changes</span>}
             </p>
           </div>
-          <Button variant="outline" onClick={loadExample}>
-            Load Example
-          </Button>
+          <div className="flex space-x-3">
+            <div className="flex">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={undo}
+                disabled={!canUndo}
+                title="Undo (Ctrl+Z)"
+                aria-label="Undo"
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={redo}
+                disabled={!canRedo}
+                title="Redo (Ctrl+Shift+Z)"
+                aria-label="Redo"
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button variant="outline" asChild>
+              <Link to="/products">View Catalog</Link>
+            </Button>
+            {productId && (
+              <>
+                <ProductHistorySheet
+                  productId={productId}
+                  currentProduct={product}
+                  onRestore={restoreVersion}
+                />
+                <Button variant="outline" asChild>
+                  <Link to={`/products/new?from=${productId}`}>Duplicate</Link>
+                </Button>
+              </>
+            )}
+            <ProductJsonActions product={product} onImport={importProduct} />
+            <Button variant="outline" onClick={loadExample}>
+              Load Example
+            </Button>
+          </div>
         </div>
 
         {/* Basic Product Information */}
@@ -351,7 +440,9 @@ const ProductManagement = () => {
                 placeholder="Enter product name"
                 value={product.name}
                 onChange={(e) => setProduct({ ...product, name: e.target.value })}
+                {...invalidProps('name')}
               />
+              <FieldError message={errors.name} />
             </div>
 
             <div className="space-y-2">
@@ -379,7 +470,50 @@ const ProductManagement = () => {
                 onChange={(e) =>
                   setProduct({ ...product, basePrice: parseFloat(e.target.value) || 0 })
                 }
+                {...invalidProps('basePrice')}
               />
+              <FieldError message={errors.basePrice} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="minPrice">Minimum Order Price ($) (optional)</Label>
+                <Input
+                  id="minPrice"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="No minimum"
+                  value={product.minPrice ?? ''}
+                  onChange={(e) =>
+                    setProduct({
+                      ...product,
+                      minPrice: e.target.value ? parseFloat(e.target.value) : undefined,
+                    })
+                  }
+                  {...invalidProps('minPrice')}
+                />
+                <FieldError message={errors.minPrice} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxPrice">Maximum Order Price ($) (optional)</Label>
+                <Input
+                  id="maxPrice"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="No maximum"
+                  value={product.maxPrice ?? ''}
+                  onChange={(e) =>
+                    setProduct({
+                      ...product,
+                      maxPrice: e.target.value ? parseFloat(e.target.value) : undefined,
+                    })
+                  }
+                  {...invalidProps('maxPrice')}
+                />
+                <FieldError message={errors.maxPrice} />
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -406,402 +540,97 @@ const ProductManagement = () => {
                   Enable Special Fields
                 </label>
                 <p className="text-sm text-muted-foreground mt-1">
-                  Add up to 4 customizable fields to collect additional product information and pricing
+                  Add up to {maxSpecialFields} customizable fields to collect additional product
+                  information and pricing
                 </p>
               </div>
             </div>
 
             {product.specialFieldsEnabled && (
               <div className="mt-6 space-y-4">
+                {product.specialFields.length > 1 && (
+                  <div className="flex justify-end space-x-2">
+                    <Button variant="ghost" size="sm" onClick={() => setCollapsedFieldIds(new Set())}>
+                      Expand All
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setCollapsedFieldIds(new Set(product.specialFields.map((field) => field.id)))
+                      }
+                    >
+                      Collapse All
+                    </Button>
+                  </div>
+                )}
                 {product.specialFields.map((field, index) => (
-                  <Card key={field.id} className="border-l-4 border-l-primary">
-                    <CardContent className="pt-6">
-                      <div className="flex items-start justify-between mb-4">
-                        <div className="flex items-center space-x-2">
-                          <GripVertical className="h-5 w-5 text-muted-foreground" />
-                          <h3 className="text-sm font-semibold">Special Field #{index + 1}</h3>
-                        </div>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => removeSpecialField(field.id)}
-                          className="text-destructive hover:text-destructive"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-
-                      <div className="space-y-4">
-                        <div className="grid grid-cols-2 gap-4">
-                          <div className="space-y-2">
-                            <Label>
-                              Special Field Label <span className="text-destructive">*</span>
-                            </Label>
-                            <Input
-                              placeholder="e.g., Size, Color, Engraving Text"
-                              value={field.label}
-                              onChange={(e) =>
-                                updateSpecialField(field.id, { label: e.target.value })
-                              }
-                            />
-                          </div>
-
-                          <div className="space-y-2">
-                            <Label>
-                              Special Field Type <span className="text-destructive">*</span>
-                            </Label>
-                            <Select
-                              value={field.type}
-                              onValueChange={(value: FieldType) => {
-                                const updates: Partial<SpecialField> = { type: value };
-                                if (value === 'dropdown') {
-                                  updates.dropdownOptions = [
-                                    { id: Date.now().toString(), name: '', price: 0 },
-                                  ];
-                                  updates.pricingModel = 'base';
-                                } else if (value === 'text') {
-                                  updates.pricingModel = 'base';
-                                  delete updates.dropdownOptions;
-                                } else if (value === 'number') {
-                                  updates.pricingModel = 'base';
-                                  delete updates.dropdownOptions;
-                                }
-                                updateSpecialField(field.id, updates);
-                              }}
-                            >
-                              <SelectTrigger>
-                                <SelectValue />
-                              </SelectTrigger>
-                              <SelectContent>
-                                <SelectItem value="text">Text</SelectItem>
-                                <SelectItem value="number">Number</SelectItem>
-                                <SelectItem value="dropdown">Dropdown</SelectItem>
-                              </SelectContent>
-                            </Select>
-                          </div>
-                        </div>
-
-                        {field.type !== 'dropdown' && (
-                          <>
-                            <div className="space-y-3">
-                              <Label>
-                                Pricing Model <span className="text-destructive">*</span>
-                              </Label>
-                              <RadioGroup
-                                value={field.pricingModel}
-                                onValueChange={(value: PricingModel) =>
-                                  updateSpecialField(field.id, { pricingModel: value })
-                                }
-                                className="space-y-2"
-                              >
-                                <div className="flex items-center space-x-2">
-                                  <RadioGroupItem value="base" id={`${field.id}-base`} />
-                                  <Label htmlFor={`${field.id}-base`} className="font-normal">
-                                    Base Price (Fixed additional price)
-                                    {field.type === 'text' && (
-                                      <span className="text-muted-foreground text-xs ml-1">
-                                        - Add fixed price regardless of text length
-                                      </span>
-                                    )}
-                                  </Label>
-                                </div>
-                                {field.type === 'text' && (
-                                  <div className="flex items-center space-x-2">
-                                    <RadioGroupItem
-                                      value="perCharacter"
-                                      id={`${field.id}-perCharacter`}
-                                    />
-                                    <Label
-                                      htmlFor={`${field.id}-perCharacter`}
-                                      className="font-normal"
-                                    >
-                                      Per Character Price (Price × character count)
-                                      <span className="text-muted-foreground text-xs ml-1">
-                                        - Price is multiplied by the number of characters entered
-                                      </span>
-                                    </Label>
-                                  </div>
-                                )}
-                                {field.type === 'number' && (
-                                  <div className="flex items-center space-x-2">
-                                    <RadioGroupItem value="perUnit" id={`${field.id}-perUnit`} />
-                                    <Label htmlFor={`${field.id}-perUnit`} className="font-normal">
-                                      Per Unit Price (Price × quantity)
-                                      <span className="text-muted-foreground text-xs ml-1">
-                                        - Price is multiplied by the quantity entered
-                                      </span>
-                                    </Label>
-                                  </div>
-                                )}
-                              </RadioGroup>
-                            </div>
-
-                            <div className="space-y-2">
-                              <Label>
-                                Base Price ($) <span className="text-destructive">*</span>
-                              </Label>
-                              <Input
-                                type="number"
-                                min="0"
-                                step="0.01"
-                                placeholder="0"
-                                value={field.price || ''}
-                                onChange={(e) =>
-                                  updateSpecialField(field.id, {
-                                    price: parseFloat(e.target.value) || 0,
-                                  })
-                                }
-                              />
-                            </div>
-
-                            {field.type === 'text' && (
-                              <div className="grid grid-cols-2 gap-4">
-                                <div className="space-y-2">
-                                  <Label>Minimum Length (optional)</Label>
-                                  <Input
-                                    type="number"
-                                    min="0"
-                                    placeholder="No minimum"
-                                    value={field.minLength || ''}
-                                    onChange={(e) =>
-                                      updateSpecialField(field.id, {
-                                        minLength: parseInt(e.target.value) || undefined,
-                                      })
-                                    }
-                                  />
-                                </div>
-                                <div className="space-y-2">
-                                  <Label>Maximum Length (optional)</Label>
-                                  <Input
-                                    type="number"
-                                    min="0"
-                                    placeholder="No maximum"
-                                    value={field.maxLength || ''}
-                                    onChange={(e) =>
-                                      updateSpecialField(field.id, {
-                                        maxLength: parseInt(e.target.value) || undefined,
-                                      })
-                                    }
-                                  />
-                                </div>
-                              </div>
-                            )}
-
-                            {field.type === 'number' && (
-                              <div className="grid grid-cols-2 gap-4">
-                                <div className="space-y-2">
-                                  <Label>Minimum Value (optional)</Label>
-                                  <Input
-                                    type="number"
-                                    placeholder="No minimum"
-                                    value={field.minValue ?? ''}
-                                    onChange={(e) =>
-                                      updateSpecialField(field.id, {
-                                        minValue: e.target.value ? parseFloat(e.target.value) : undefined,
-                                      })
-                                    }
-                                  />
-                                </div>
-                                <div className="space-y-2">
-                                  <Label>Maximum Value (optional)</Label>
-                                  <Input
-                                    type="number"
-                                    placeholder="No maximum"
-                                    value={field.maxValue ?? ''}
-                                    onChange={(e) =>
-                                      updateSpecialField(field.id, {
-                                        maxValue: e.target.value ? parseFloat(e.target.value) : undefined,
-                                      })
-                                    }
-                                  />
-                                </div>
-                              </div>
-                            )}
-
-                            <div className="bg-accent/50 p-3 rounded-md">
-                              <p className="text-sm text-accent-foreground">
-                                <span className="font-medium">Example:</span> Customer pays $
-                                {field.price.toFixed(2)} fixed price
-                                {field.pricingModel === 'perCharacter' &&
-                                  ' × number of characters'}
-                                {field.pricingModel === 'perUnit' && ' × quantity'}
-                              </p>
-                            </div>
-                          </>
-                        )}
-
-                        {field.type === 'dropdown' && field.dropdownOptions && (
-                          <div className="space-y-3">
-                            <Label>Dropdown Options</Label>
-                            {field.dropdownOptions.map((option, optIndex) => (
-                              <div key={option.id} className="flex gap-2">
-                                <div className="flex-1">
-                                  <Input
-                                    placeholder="Option name"
-                                    value={option.name}
-                                    onChange={(e) =>
-                                      updateDropdownOption(field.id, option.id, {
-                                        name: e.target.value,
-                                      })
-                                    }
-                                  />
-                                </div>
-                                <div className="w-32">
-                                  <Input
-                                    type="number"
-                                    min="0"
-                                    step="0.01"
-                                    placeholder="Price"
-                                    value={option.price || ''}
-                                    onChange={(e) =>
-                                      updateDropdownOption(field.id, option.id, {
-                                        price: parseFloat(e.target.value) || 0,
-                                      })
-                                    }
-                                  />
-                                </div>
-                                <Button
-                                  variant="ghost"
-                                  size="icon"
-                                  onClick={() => removeDropdownOption(field.id, option.id)}
-                                  disabled={field.dropdownOptions!.length <= 1}
-                                  className="text-destructive hover:text-destructive"
-                                >
-                                  <Trash2 className="h-4 w-4" />
-                                </Button>
-                              </div>
-                            ))}
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => addDropdownOption(field.id)}
-                              className="w-full"
-                            >
-                              <Plus className="h-4 w-4 mr-2" />
-                              Add Option
-                            </Button>
-                          </div>
-                        )}
-                      </div>
-                    </CardContent>
-                  </Card>
+                  <div
+                    key={field.id}
+                    {...fieldReorder.getItemProps(index)}
+                    className={cn(
+                      'rounded-lg transition-opacity',
+                      fieldReorder.dragIndex === index && 'opacity-50',
+                      fieldReorder.overIndex === index &&
+                        fieldReorder.dragIndex !== index &&
+                        'ring-2 ring-primary ring-offset-2'
+                    )}
+                  >
+                    <SpecialFieldCard
+                      field={field}
+                      index={index}
+                      fields={product.specialFields}
+                      errors={errors}
+                      expanded={!collapsedFieldIds.has(field.id)}
+                      onExpandedChange={(expanded) => setFieldExpanded(field.id, expanded)}
+                      onUpdate={(updates, options) => updateSpecialField(field.id, updates, options)}
+                      onRemove={() => removeSpecialField(field.id)}
+                      onRename={(previousLabel) => renameSpecialField(field.id, previousLabel)}
+                      dragHandleProps={fieldReorder.getHandleProps(index)}
+                      onMoveUp={index > 0 ? () => moveSpecialField(index, index - 1) : undefined}
+                      onMoveDown={
+                        index < product.specialFields.length - 1
+                          ? () => moveSpecialField(index, index + 1)
+                          : undefined
+                      }
+                    />
+                  </div>
                 ))}
 
                 <Button
                   variant="outline"
                   onClick={addSpecialField}
-                  disabled={product.specialFields.length >= 4}
+                  disabled={product.specialFields.length >= maxSpecialFields}
                   className="w-full"
                 >
                   <Plus className="h-4 w-4 mr-2" />
-                  Add Special Field ({product.specialFields.length}/4)
+                  Add Special Field ({product.specialFields.length}/{maxSpecialFields})
                 </Button>
+                <FieldError message={errors.specialFields} />
               </div>
             )}
           </CardContent>
         </Card>
 
         {/* Customer Preview */}
-        <Card className="border-primary/20">
-          <CardHeader>
-            <div className="flex items-center space-x-2">
-              <Eye className="h-5 w-5 text-primary" />
-              <CardTitle>Customer Preview</CardTitle>
-            </div>
-            <CardDescription>
-              This is how customers will see and interact with special fields
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="space-y-3">
-              <div>
-                <p className="font-semibold text-foreground">
-                  {product.name || 'Product Name'}
-                </p>
-                <p className="text-sm text-muted-foreground">
-                  Base Price: ${product.basePrice.toFixed(2)}
-                </p>
-              </div>
-
-              {product.specialFieldsEnabled &&
-                product.specialFields.map((field) => (
-                  <div key={field.id} className="space-y-2">
-                    <Label>{field.label || 'Field Label'}</Label>
-                    {field.type === 'text' && (
-                      <Input
-                        placeholder="Enter"
-                        value={(customerValues[field.id] as string) || ''}
-                        onChange={(e) =>
-                          setCustomerValues({
-                            ...customerValues,
-                            [field.id]: e.target.value,
-                          })
-                        }
-                        maxLength={field.maxLength}
-                      />
-                    )}
-                    {field.type === 'number' && (
-                      <Input
-                        type="number"
-                        placeholder="Enter quantity"
-                        value={(customerValues[field.id] as number) || ''}
-                        min={field.minValue}
-                        max={field.maxValue}
-                        onChange={(e) =>
-                          setCustomerValues({
-                            ...customerValues,
-                            [field.id]: parseInt(e.target.value) || 0,
-                          })
-                        }
-                      />
-                    )}
-                    {field.type === 'dropdown' && field.dropdownOptions && (
-                      <Select
-                        value={(customerValues[field.id] as string) || ''}
-                        onValueChange={(value) =>
-                          setCustomerValues({
-                            ...customerValues,
-                            [field.id]: value,
-                          })
-                        }
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select option" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {field.dropdownOptions.map((opt) => (
-                            <SelectItem key={opt.id} value={opt.id}>
-                              {opt.name || 'Unnamed Option'} (+${opt.price.toFixed(2)})
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    )}
-                  </div>
-                ))}
-
-              <div className="pt-4 border-t space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span>Base Price:</span>
-                  <span>${product.basePrice.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between text-lg font-bold text-primary">
-                  <span>Total Price:</span>
-                  <span>${calculateTotalPrice().toFixed(2)}</span>
-                </div>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+        <CustomerPreview
+          product={product}
+          customerValues={customerValues}
+          onCustomerValuesChange={setCustomerValues}
+        />
 
         {/* Action Buttons */}
         <div className="flex justify-end space-x-3">
           <Button variant="outline" onClick={resetForm}>
             Cancel
           </Button>
-          <Button variant="black" onClick={saveProduct}>Save Product</Button>
+          <Button variant="black" onClick={saveProduct} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : 'Save Product'}
+          </Button>
         </div>
       </div>
+
+      <UnsavedChangesDialog blocker={blocker} />
     </div>
   );
 };
@@ -0,0 +1,1114 @@
+import { useRef, type HTMLAttributes } from 'react';
+import {
+  ArrowDown,
+  ArrowDown01,
+  ArrowDownAZ,
+  ArrowUp,
+  ChevronDown,
+  GripVertical,
+  Plus,
+  Trash2,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Card, CardContent } from '@/components/ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import DatePickerInput from '@/components/DatePickerInput';
+import FieldError from '@/components/FieldError';
+import FieldVisibilityEditor from '@/components/FieldVisibilityEditor';
+import PriceTierEditor from '@/components/PriceTierEditor';
+import PricingFormulaEditor from '@/components/PricingFormulaEditor';
+import { useDragReorder } from '@/hooks/use-drag-reorder';
+import { WEEKDAY_LABELS } from '@/lib/date-field';
+import { describeVisibilityRule } from '@/lib/field-visibility';
+import { describeTierRange, usesPriceTiers } from '@/lib/price-tiers';
+import { formatCurrency } from '@/lib/pricing';
+import {
+  hasOptions,
+  type DropdownDisplayMode,
+  type DropdownOption,
+  type FieldType,
+  type PricingModel,
+  type SpecialField,
+} from '@/lib/product';
+import type { ProductValidationErrors } from '@/lib/product-schema';
+import { isMultilineField } from '@/lib/text-field';
+import { cn, generateId, moveItem } from '@/lib/utils';
+
+const FIELD_TYPE_LABELS: Record<FieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  dropdown: 'Dropdown',
+  checkbox: 'Checkbox',
+  multiselect: 'Multi-select',
+  date: 'Date',
+  file: 'File upload',
+};
+
+const hasIncludedQuantity = (pricingModel: PricingModel) =>
+  pricingModel === 'perCharacter' || pricingModel === 'perUnit';
+
+const summarizePricing = (field: SpecialField): string => {
+  const type = FIELD_TYPE_LABELS[field.type];
+  if (hasOptions(field.type)) {
+    const count = field.dropdownOptions?.length ?? 0;
+    return `${type} · ${count} ${count === 1 ? 'option' : 'options'}`;
+  }
+  if (field.type === 'checkbox') {
+    return `${type} · ${formatCurrency(field.price)} when checked`;
+  }
+  if (field.type === 'date' && field.rushSurcharge) {
+    return `${type} · ${formatCurrency(field.price)} fixed · +${formatCurrency(
+      field.rushSurcharge
+    )} rush`;
+  }
+  switch (field.pricingModel) {
+    case 'perCharacter':
+      return `${type} · ${formatCurrency(field.price)} per character${
+        field.excludeWhitespace ? ' (spaces free)' : ''
+      }${field.includedQuantity ? ` · first ${field.includedQuantity} free` : ''}`;
+    case 'perWord':
+      return `${type} · ${formatCurrency(field.price)} per word`;
+    case 'perLine':
+      return `${type} · ${formatCurrency(field.price)} per line`;
+    case 'perUnit':
+      return `${type} · ${formatCurrency(field.price)} per unit${
+        field.includedQuantity ? ` · first ${field.includedQuantity} free` : ''
+      }`;
+    case 'tiered':
+    case 'graduated': {
+      const count = field.priceTiers?.length ?? 0;
+      return `${type} · ${field.pricingModel} · ${count} ${count === 1 ? 'tier' : 'tiers'}`;
+    }
+    case 'formula':
+      return `${type} · ${field.formula?.trim() || 'formula'}`;
+    default:
+      return `${type} · ${formatCurrency(field.price)} fixed`;
+  }
+};
+
+/** One-line description of a field's configuration, shown while its card is collapsed. */
+const summarizeField = (field: SpecialField, fields: SpecialField[]): string =>
+  [
+    summarizePricing(field),
+    field.minPrice !== undefined && `min ${formatCurrency(field.minPrice)}`,
+    field.maxPrice !== undefined && `max ${formatCurrency(field.maxPrice)}`,
+    field.visibleWhen && describeVisibilityRule(field.visibleWhen, fields),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+interface SpecialFieldCardProps {
+  field: SpecialField;
+  index: number;
+  /** Every special field of the product, for choosing the field a visibility rule depends on. */
+  fields: SpecialField[];
+  /** Validation errors for the whole product, keyed by path. */
+  errors: ProductValidationErrors;
+  expanded: boolean;
+  onExpandedChange: (expanded: boolean) => void;
+  /** `checkpoint` records the change as its own undo step (removals, reordering). */
+  onUpdate: (updates: Partial<SpecialField>, options?: { checkpoint?: boolean }) => void;
+  onRemove: () => void;
+  /** Called once the label loses focus after an edit, with the label it had before. */
+  onRename?: (previousLabel: string) => void;
+  /** Drag-and-drop and keyboard reordering, from `useDragReorder().getHandleProps`. */
+  dragHandleProps?: HTMLAttributes<HTMLButtonElement>;
+  /** Omitted when the field is already first. */
+  onMoveUp?: () => void;
+  /** Omitted when the field is already last. */
+  onMoveDown?: () => void;
+}
+
+const SpecialFieldCard = ({
+  field,
+  index,
+  fields,
+  errors,
+  expanded,
+  onExpandedChange,
+  onUpdate,
+  onRemove,
+  onRename,
+  dragHandleProps,
+  onMoveUp,
+  onMoveDown,
+}: SpecialFieldCardProps) => {
+  const prefix = `specialFields.${index}`;
+  const labelBeforeEdit = useRef<string>();
+  const errorCount = Object.keys(errors).filter((path) => path.startsWith(`${prefix}.`)).length;
+
+  const invalidProps = (path: string) => ({
+    'aria-invalid': !!errors[path],
+    className: cn(errors[path] && 'border-destructive focus-visible:ring-destructive'),
+  });
+
+  const addOption = () => {
+    if (!field.dropdownOptions) return;
+
+    const newOption: DropdownOption = {
+      id: Date.now().toString(),
+      name: '',
+      price: 0,
+    };
+
+    onUpdate({ dropdownOptions: [...field.dropdownOptions, newOption] });
+  };
+
+  const removeOption = (optionId: string) => {
+    if (!field.dropdownOptions) return;
+
+    onUpdate(
+      { dropdownOptions: field.dropdownOptions.filter((opt) => opt.id !== optionId) },
+      { checkpoint: true }
+    );
+  };
+
+  const updateOption = (optionId: string, updates: Partial<DropdownOption>) => {
+    if (!field.dropdownOptions) return;
+
+    onUpdate({
+      dropdownOptions: field.dropdownOptions.map((opt) =>
+        opt.id === optionId ? { ...opt, ...updates } : opt
+      ),
+    });
+  };
+
+  const moveOption = (from: number, to: number) => {
+    if (!field.dropdownOptions) return;
+
+    onUpdate({ dropdownOptions: moveItem(field.dropdownOptions, from, to) }, { checkpoint: true });
+  };
+
+  const sortOptions = (by: 'name' | 'price') => {
+    if (!field.dropdownOptions) return;
+
+    const byName = (a: DropdownOption, b: DropdownOption) =>
+      a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+    onUpdate(
+      {
+        dropdownOptions: [...field.dropdownOptions].sort((a, b) =>
+          by === 'name' ? byName(a, b) : a.price - b.price || byName(a, b)
+        ),
+      },
+      { checkpoint: true }
+    );
+  };
+
+  // Each accepted type is validated separately; show the first problem.
+  const mimeTypesError = Object.entries(errors).find(([path]) =>
+    path.startsWith(`${prefix}.allowedMimeTypes.`)
+  )?.[1];
+
+  const showSwatches = field.type === 'dropdown' && field.displayMode === 'swatches';
+
+  const optionReorder = useDragReorder(field.dropdownOptions?.length ?? 0, moveOption);
+
+  return (
+    <Card className="border-l-4 border-l-primary">
+      <Collapsible open={expanded} onOpenChange={onExpandedChange}>
+        <CardContent className={expanded ? 'pt-6' : 'py-3'}>
+          <div className={cn('flex items-center justify-between gap-2', expanded && 'mb-4')}>
+            <button
+              type="button"
+              aria-label={`Reorder special field #${index + 1}. Use arrow keys to move it.`}
+              className="cursor-grab rounded-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring active:cursor-grabbing"
+              {...dragHandleProps}
+            >
+              <GripVertical className="h-5 w-5 text-muted-foreground" />
+            </button>
+            <CollapsibleTrigger className="flex flex-1 items-center space-x-2 min-w-0 text-left">
+              <h3 className="text-sm font-semibold shrink-0">Special Field #{index + 1}</h3>
+              {!expanded && (
+                <span className="truncate text-sm text-muted-foreground">
+                  {field.label || 'Untitled'} — {summarizeField(field, fields)}
+                </span>
+              )}
+              {errorCount > 0 && (
+                <Badge variant="destructive" className="shrink-0">
+                  {errorCount} {errorCount === 1 ? 'error' : 'errors'}
+                </Badge>
+              )}
+              <ChevronDown
+                className={cn(
+                  'h-4 w-4 shrink-0 text-muted-foreground transition-transform',
+                  expanded && 'rotate-180'
+                )}
+              />
+            </CollapsibleTrigger>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onMoveUp}
+              disabled={!onMoveUp}
+              aria-label="Move field up"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onMoveDown}
+              disabled={!onMoveDown}
+              aria-label="Move field down"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onRemove}
+              className="text-destructive hover:text-destructive"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <CollapsibleContent>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>
+                    Special Field Label <span className="text-destructive">*</span>
+                  </Label>
+                  <Input
+                    placeholder="e.g., Size, Color, Engraving Text"
+                    value={field.label}
+                    onChange={(e) => onUpdate({ label: e.target.value })}
+                    onFocus={() => {
+                      labelBeforeEdit.current = field.label;
+                    }}
+                    onBlur={() => {
+                      const previousLabel = labelBeforeEdit.current;
+                      labelBeforeEdit.current = undefined;
+                      if (previousLabel !== undefined && previousLabel !== field.label) {
+                        onRename?.(previousLabel);
+                      }
+                    }}
+                    {...invalidProps(`${prefix}.label`)}
+                  />
+                  <FieldError message={errors[`${prefix}.label`]} />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>
+                    Special Field Type <span className="text-destructive">*</span>
+                  </Label>
+                  <Select
+                    value={field.type}
+                    onValueChange={(value: FieldType) => {
+                      // Settings of the previous type would still be validated and saved.
+                      const updates: Partial<SpecialField> = {
+                        type: value,
+                        priceTiers: undefined,
+                        formula: undefined,
+                        includedQuantity: undefined,
+                        minLength: undefined,
+                        maxLength: undefined,
+                        excludeWhitespace: undefined,
+                        multiline: undefined,
+                        minValue: undefined,
+                        maxValue: undefined,
+                        allowDecimal: undefined,
+                        displayMode: undefined,
+                        minSelections: undefined,
+                        maxSelections: undefined,
+                        earliestDate: undefined,
+                        latestDate: undefined,
+                        blockedWeekdays: undefined,
+                        rushDays: undefined,
+                        rushSurcharge: undefined,
+                        allowedMimeTypes: undefined,
+                        maxFileSizeMb: undefined,
+                        maxFiles: undefined,
+                      };
+                      if (hasOptions(value)) {
+                        // Options carry over between dropdown and multi-select.
+                        updates.dropdownOptions = field.dropdownOptions ?? [
+                          { id: Date.now().toString(), name: '', price: 0 },
+                        ];
+                        updates.pricingModel = 'base';
+                      } else {
+                        updates.pricingModel = 'base';
+                        updates.dropdownOptions = undefined;
+                      }
+                      onUpdate(updates);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="text">Text</SelectItem>
+                      <SelectItem value="number">Number</SelectItem>
+                      <SelectItem value="dropdown">Dropdown</SelectItem>
+                      <SelectItem value="checkbox">Checkbox</SelectItem>
+                      <SelectItem value="multiselect">Multi-select</SelectItem>
+                      <SelectItem value="date">Date</SelectItem>
+                      <SelectItem value="file">File upload</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-6">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`${field.id}-required`}
+                    checked={!!field.required}
+                    onCheckedChange={(checked) => onUpdate({ required: checked === true })}
+                  />
+                  <Label htmlFor={`${field.id}-required`} className="font-normal">
+                    {field.type === 'checkbox'
+                      ? 'Customer must check this box'
+                      : 'Customer must fill in this field'}
+                  </Label>
+                </div>
+                {field.type === 'number' && (
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`${field.id}-allowDecimal`}
+                      checked={!!field.allowDecimal}
+                      onCheckedChange={(checked) => onUpdate({ allowDecimal: checked === true })}
+                    />
+                    <Label htmlFor={`${field.id}-allowDecimal`} className="font-normal">
+                      Allow decimal values
+                    </Label>
+                  </div>
+                )}
+                {field.type === 'text' && (
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`${field.id}-multiline`}
+                      checked={isMultilineField(field)}
+                      disabled={field.pricingModel === 'perLine'}
+                      onCheckedChange={(checked) => onUpdate({ multiline: checked === true })}
+                    />
+                    <Label htmlFor={`${field.id}-multiline`} className="font-normal">
+                      Allow multiple lines
+                    </Label>
+                  </div>
+                )}
+              </div>
+
+              <FieldVisibilityEditor
+                field={field}
+                fields={fields}
+                error={errors[`${prefix}.visibleWhen`]}
+                onChange={(visibleWhen) => onUpdate({ visibleWhen })}
+              />
+
+              {!hasOptions(field.type) && (
+                <>
+                  {(field.type === 'text' || field.type === 'number') && (
+                    <div className="space-y-3">
+                      <Label>
+                        Pricing Model <span className="text-destructive">*</span>
+                      </Label>
+                      <RadioGroup
+                        value={field.pricingModel}
+                        onValueChange={(value: PricingModel) =>
+                          onUpdate({
+                            pricingModel: value,
+                            priceTiers: usesPriceTiers(value)
+                              ? field.priceTiers ?? [
+                                  { id: generateId(), minQuantity: 1, unitPrice: field.price },
+                                ]
+                              : undefined,
+                            formula: value === 'formula' ? field.formula ?? '' : undefined,
+                            excludeWhitespace:
+                              value === 'perCharacter' ? field.excludeWhitespace : undefined,
+                            includedQuantity: hasIncludedQuantity(value)
+                              ? field.includedQuantity
+                              : undefined,
+                          })
+                        }
+                        className="space-y-2"
+                      >
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="base" id={`${field.id}-base`} />
+                          <Label htmlFor={`${field.id}-base`} className="font-normal">
+                            Base Price (Fixed additional price)
+                            {field.type === 'text' && (
+                              <span className="text-muted-foreground text-xs ml-1">
+                                - Add fixed price regardless of text length
+                              </span>
+                            )}
+                          </Label>
+                        </div>
+                        {field.type === 'text' && (
+                          <div className="flex items-center space-x-2">
+                            <RadioGroupItem
+                              value="perCharacter"
+                              id={`${field.id}-perCharacter`}
+                            />
+                            <Label
+                              htmlFor={`${field.id}-perCharacter`}
+                              className="font-normal"
+                            >
+                              Per Character Price (Price × character count)
+                              <span className="text-muted-foreground text-xs ml-1">
+                                - Price is multiplied by the number of characters entered
+                              </span>
+                            </Label>
+                          </div>
+                        )}
+                        {field.type === 'text' && (
+                          <div className="flex items-center space-x-2">
+                            <RadioGroupItem value="perWord" id={`${field.id}-perWord`} />
+                            <Label htmlFor={`${field.id}-perWord`} className="font-normal">
+                              Per Word Price (Price × word count)
+                              <span className="text-muted-foreground text-xs ml-1">
+                                - Price is multiplied by the number of words entered
+                              </span>
+                            </Label>
+                          </div>
+                        )}
+                        {field.type === 'text' && (
+                          <div className="flex items-center space-x-2">
+                            <RadioGroupItem value="perLine" id={`${field.id}-perLine`} />
+                            <Label htmlFor={`${field.id}-perLine`} className="font-normal">
+                              Per Line Price (Price × line count)
+                              <span className="text-muted-foreground text-xs ml-1">
+                                - Price is multiplied by the number of non-blank lines entered
+                              </span>
+                            </Label>
+                          </div>
+                        )}
+                        {field.type === 'number' && (
+                          <div className="flex items-center space-x-2">
+                            <RadioGroupItem value="perUnit" id={`${field.id}-perUnit`} />
+                            <Label htmlFor={`${field.id}-perUnit`} className="font-normal">
+                              Per Unit Price (Price × quantity)
+                              <span className="text-muted-foreground text-xs ml-1">
+                                - Price is multiplied by the quantity entered
+                              </span>
+                            </Label>
+                          </div>
+                        )}
+                        {field.type === 'number' && (
+                          <div className="flex items-center space-x-2">
+                            <RadioGroupItem value="tiered" id={`${field.id}-tiered`} />
+                            <Label htmlFor={`${field.id}-tiered`} className="font-normal">
+                              Tiered Price (Tier price × quantity)
+                              <span className="text-muted-foreground text-xs ml-1">
+                                - Every unit costs the price of the tier the quantity reaches
+                              </span>
+                            </Label>
+                          </div>
+                        )}
+                        {field.type === 'number' && (
+                          <div className="flex items-center space-x-2">
+                            <RadioGroupItem value="graduated" id={`${field.id}-graduated`} />
+                            <Label htmlFor={`${field.id}-graduated`} className="font-normal">
+                              Graduated Price (Each unit priced in its tier)
+                              <span className="text-muted-foreground text-xs ml-1">
+                                - Units in each tier cost that tier's price
+                              </span>
+                            </Label>
+                          </div>
+                        )}
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="formula" id={`${field.id}-formula-model`} />
+                          <Label htmlFor={`${field.id}-formula-model`} className="font-normal">
+                            Formula Price (Calculated from other fields)
+                            <span className="text-muted-foreground text-xs ml-1">
+                              - e.g. width × height × rate
+                            </span>
+                          </Label>
+                        </div>
+                      </RadioGroup>
+                      {field.pricingModel === 'perCharacter' && (
+                        <div className="flex items-center space-x-2 pl-6">
+                          <Checkbox
+                            id={`${field.id}-excludeWhitespace`}
+                            checked={!!field.excludeWhitespace}
+                            onCheckedChange={(checked) =>
+                              onUpdate({ excludeWhitespace: checked === true })
+                            }
+                          />
+                          <Label
+                            htmlFor={`${field.id}-excludeWhitespace`}
+                            className="font-normal"
+                          >
+                            Don't charge for spaces and line breaks
+                          </Label>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {field.pricingModel === 'formula' ? (
+                    <PricingFormulaEditor
+                      field={field}
+                      fields={fields}
+                      error={errors[`${prefix}.formula`]}
+                      onChange={(formula) => onUpdate({ formula })}
+                    />
+                  ) : usesPriceTiers(field.pricingModel) ? (
+                    <PriceTierEditor
+                      tiers={field.priceTiers ?? []}
+                      errors={errors}
+                      path={`${prefix}.priceTiers`}
+                      onChange={(priceTiers, options) => onUpdate({ priceTiers }, options)}
+                    />
+                  ) : (
+                    <div className="space-y-2">
+                      <Label>
+                        {field.type === 'checkbox' ? 'Add-on Price ($)' : 'Base Price ($)'}{' '}
+                        <span className="text-destructive">*</span>
+                      </Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="0"
+                        value={field.price || ''}
+                        onChange={(e) =>
+                          onUpdate({
+                            price: parseFloat(e.target.value) || 0,
+                          })
+                        }
+                        {...invalidProps(`${prefix}.price`)}
+                      />
+                      <FieldError message={errors[`${prefix}.price`]} />
+                    </div>
+                  )}
+
+                  {hasIncludedQuantity(field.pricingModel) && (
+                    <div className="space-y-2">
+                      <Label>
+                        {field.pricingModel === 'perCharacter'
+                          ? 'Free Characters (optional)'
+                          : 'Free Units (optional)'}
+                      </Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        placeholder="None"
+                        value={field.includedQuantity ?? ''}
+                        onChange={(e) =>
+                          onUpdate({
+                            includedQuantity: e.target.value
+                              ? parseFloat(e.target.value)
+                              : undefined,
+                          })
+                        }
+                        {...invalidProps(`${prefix}.includedQuantity`)}
+                      />
+                      <FieldError message={errors[`${prefix}.includedQuantity`]} />
+                    </div>
+                  )}
+
+                  {field.type === 'text' && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>Minimum Length (optional)</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          placeholder="No minimum"
+                          value={field.minLength || ''}
+                          onChange={(e) =>
+                            onUpdate({
+                              minLength: parseInt(e.target.value) || undefined,
+                            })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Maximum Length (optional)</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          placeholder="No maximum"
+                          value={field.maxLength || ''}
+                          onChange={(e) =>
+                            onUpdate({
+                              maxLength: parseInt(e.target.value) || undefined,
+                            })
+                          }
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {field.type === 'number' && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>Minimum Value (optional)</Label>
+                        <Input
+                          type="number"
+                          placeholder="No minimum"
+                          value={field.minValue ?? ''}
+                          onChange={(e) =>
+                            onUpdate({
+                              minValue: e.target.value ? parseFloat(e.target.value) : undefined,
+                            })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Maximum Value (optional)</Label>
+                        <Input
+                          type="number"
+                          placeholder="No maximum"
+                          value={field.maxValue ?? ''}
+                          onChange={(e) =>
+                            onUpdate({
+                              maxValue: e.target.value ? parseFloat(e.target.value) : undefined,
+                            })
+                          }
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {field.type === 'date' && (
+                    <>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label>Earliest Date (optional)</Label>
+                          <DatePickerInput
+                            value={field.earliestDate}
+                            placeholder="No earliest date"
+                            onChange={(earliestDate) => onUpdate({ earliestDate })}
+                            invalid={!!errors[`${prefix}.earliestDate`]}
+                          />
+                          <FieldError message={errors[`${prefix}.earliestDate`]} />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Latest Date (optional)</Label>
+                          <DatePickerInput
+                            value={field.latestDate}
+                            placeholder="No latest date"
+                            onChange={(latestDate) => onUpdate({ latestDate })}
+                            invalid={!!errors[`${prefix}.latestDate`]}
+                          />
+                          <FieldError message={errors[`${prefix}.latestDate`]} />
+                        </div>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label>Unavailable Days</Label>
+                        <ToggleGroup
+                          type="multiple"
+                          variant="outline"
+                          className="justify-start"
+                          value={(field.blockedWeekdays ?? []).map(String)}
+                          onValueChange={(days) =>
+                            onUpdate({
+                              blockedWeekdays:
+                                days.length > 0 ? days.map(Number).sort((a, b) => a - b) : undefined,
+                            })
+                          }
+                        >
+                          {WEEKDAY_LABELS.map((label, day) => (
+                            <ToggleGroupItem key={label} value={String(day)} className="px-3">
+                              {label}
+                            </ToggleGroupItem>
+                          ))}
+                        </ToggleGroup>
+                        <FieldError message={errors[`${prefix}.blockedWeekdays`]} />
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label>Rush Window in Days (optional)</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="1"
+                            placeholder="No rush pricing"
+                            value={field.rushDays ?? ''}
+                            onChange={(e) =>
+                              onUpdate({
+                                rushDays: e.target.value ? parseInt(e.target.value) : undefined,
+                              })
+                            }
+                            {...invalidProps(`${prefix}.rushDays`)}
+                          />
+                          <FieldError message={errors[`${prefix}.rushDays`]} />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Rush Surcharge ($)</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            placeholder="0"
+                            value={field.rushSurcharge || ''}
+                            onChange={(e) =>
+                              onUpdate({
+                                rushSurcharge: parseFloat(e.target.value) || undefined,
+                              })
+                            }
+                            {...invalidProps(`${prefix}.rushSurcharge`)}
+                          />
+                          <FieldError message={errors[`${prefix}.rushSurcharge`]} />
+                        </div>
+                      </div>
+                    </>
+                  )}
+
+                  {field.type === 'file' && (
+                    <>
+                      <div className="space-y-2">
+                        <Label>Accepted File Types (optional)</Label>
+                        <Input
+                          // Edited as text and parsed on blur; remounts when the list changes elsewhere.
+                          key={field.allowedMimeTypes?.join(', ')}
+                          placeholder="Any type, or e.g. image/png, image/*, application/pdf"
+                          defaultValue={field.allowedMimeTypes?.join(', ') ?? ''}
+                          onBlur={(e) => {
+                            const types = e.target.value
+                              .split(',')
+                              .map((type) => type.trim())
+                              .filter(Boolean);
+                            onUpdate({ allowedMimeTypes: types.length > 0 ? types : undefined });
+                          }}
+                          aria-invalid={!!mimeTypesError}
+                          className={cn(
+                            mimeTypesError && 'border-destructive focus-visible:ring-destructive'
+                          )}
+                        />
+                        <FieldError message={mimeTypesError} />
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label>Maximum File Size in MB (optional)</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="any"
+                            placeholder="No limit"
+                            value={field.maxFileSizeMb ?? ''}
+                            onChange={(e) =>
+                              onUpdate({
+                                maxFileSizeMb: e.target.value
+                                  ? parseFloat(e.target.value)
+                                  : undefined,
+                              })
+                            }
+                            {...invalidProps(`${prefix}.maxFileSizeMb`)}
+                          />
+                          <FieldError message={errors[`${prefix}.maxFileSizeMb`]} />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Maximum Files (optional)</Label>
+                          <Input
+                            type="number"
+                            min="1"
+                            step="1"
+                            placeholder="No limit"
+                            value={field.maxFiles ?? ''}
+                            onChange={(e) =>
+                              onUpdate({
+                                maxFiles: e.target.value ? parseInt(e.target.value) : undefined,
+                              })
+                            }
+                            {...invalidProps(`${prefix}.maxFiles`)}
+                          />
+                          <FieldError message={errors[`${prefix}.maxFiles`]} />
+                        </div>
+                      </div>
+                    </>
+                  )}
+
+                  <div className="bg-accent/50 p-3 rounded-md">
+                    {field.pricingModel === 'formula' ? (
+                      <p className="text-sm text-accent-foreground">
+                        <span className="font-medium">Example:</span> Customer pays the result of
+                        the formula, calculated from their other choices
+                      </p>
+                    ) : usesPriceTiers(field.pricingModel) ? (
+                      <p className="text-sm text-accent-foreground">
+                        <span className="font-medium">Example:</span>{' '}
+                        {field.pricingModel === 'tiered'
+                          ? 'Every unit costs the price of the tier the quantity reaches'
+                          : 'Each unit costs the price of the tier it falls in'}
+                        {field.priceTiers?.length > 0 &&
+                          ` (${field.priceTiers
+                            .map(
+                              (tier) =>
+                                `${describeTierRange(field.priceTiers, tier)}: ${formatCurrency(
+                                  tier.unitPrice
+                                )}`
+                            )
+                            .join(', ')})`}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-accent-foreground">
+                        <span className="font-medium">Example:</span> Customer pays $
+                        {field.price.toFixed(2)}
+                        {field.type === 'checkbox'
+                          ? ' when the box is checked'
+                          : field.type === 'file'
+                            ? ' fixed price when files are uploaded'
+                            : ' fixed price'}
+                        {field.pricingModel === 'perCharacter' &&
+                          (field.excludeWhitespace
+                            ? ' × number of characters, not counting spaces'
+                            : ' × number of characters')}
+                        {field.pricingModel === 'perWord' && ' × number of words'}
+                        {field.pricingModel === 'perLine' && ' × number of lines'}
+                        {field.pricingModel === 'perUnit' && ' × quantity'}
+                        {hasIncludedQuantity(field.pricingModel) &&
+                          field.includedQuantity > 0 &&
+                          `, after the first ${field.includedQuantity} for free`}
+                        {field.type === 'date' &&
+                          field.rushDays !== undefined &&
+                          !!field.rushSurcharge &&
+                          `, plus ${formatCurrency(field.rushSurcharge)} for dates within ${
+                            field.rushDays
+                          } ${field.rushDays === 1 ? 'day' : 'days'}`}
+                      </p>
+                    )}
+                  </div>
+                </>
+              )}
+
+              {field.type === 'multiselect' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Minimum Selections (optional)</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder="No minimum"
+                      value={field.minSelections ?? ''}
+                      onChange={(e) =>
+                        onUpdate({
+                          minSelections: e.target.value ? parseInt(e.target.value) : undefined,
+                        })
+                      }
+                      {...invalidProps(`${prefix}.minSelections`)}
+                    />
+                    <FieldError message={errors[`${prefix}.minSelections`]} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Maximum Selections (optional)</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder="No maximum"
+                      value={field.maxSelections ?? ''}
+                      onChange={(e) =>
+                        onUpdate({
+                          maxSelections: e.target.value ? parseInt(e.target.value) : undefined,
+                        })
+                      }
+                      {...invalidProps(`${prefix}.maxSelections`)}
+                    />
+                    <FieldError message={errors[`${prefix}.maxSelections`]} />
+                  </div>
+                </div>
+              )}
+
+              {field.type === 'dropdown' && (
+                <div className="space-y-2 max-w-xs">
+                  <Label>Display As</Label>
+                  <Select
+                    value={field.displayMode ?? 'select'}
+                    onValueChange={(value: DropdownDisplayMode) => onUpdate({ displayMode: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="select">Dropdown menu</SelectItem>
+                      <SelectItem value="radio">Radio buttons</SelectItem>
+                      <SelectItem value="swatches">Color or image swatches</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {hasOptions(field.type) && field.dropdownOptions && (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label>{field.type === 'multiselect' ? 'Options' : 'Dropdown Options'}</Label>
+                    <div className="flex space-x-1">
+                      <Button variant="ghost" size="sm" onClick={() => sortOptions('name')}>
+                        <ArrowDownAZ className="h-4 w-4 mr-1" />
+                        Sort by Name
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => sortOptions('price')}>
+                        <ArrowDown01 className="h-4 w-4 mr-1" />
+                        Sort by Price
+                      </Button>
+                    </div>
+                  </div>
+                  {field.dropdownOptions.map((option, optIndex) => (
+                    <div
+                      key={option.id}
+                      {...optionReorder.getItemProps(optIndex)}
+                      className={cn(
+                        'flex gap-2 rounded-md',
+                        optionReorder.dragIndex === optIndex && 'opacity-50',
+                        optionReorder.overIndex === optIndex &&
+                          optionReorder.dragIndex !== optIndex &&
+                          'ring-2 ring-primary ring-offset-2'
+                      )}
+                    >
+                      <button
+                        type="button"
+                        aria-label={`Reorder option ${option.name || optIndex + 1}. Use arrow keys to move it.`}
+                        className="flex h-10 shrink-0 cursor-grab items-center rounded-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring active:cursor-grabbing"
+                        {...optionReorder.getHandleProps(optIndex)}
+                      >
+                        <GripVertical className="h-4 w-4 text-muted-foreground" />
+                      </button>
+                      <div className="flex-1 space-y-1">
+                        <Input
+                          placeholder="Option name"
+                          value={option.name}
+                          onChange={(e) =>
+                            updateOption(option.id, {
+                              name: e.target.value,
+                            })
+                          }
+                          {...invalidProps(`${prefix}.dropdownOptions.${optIndex}.name`)}
+                        />
+                        <FieldError
+                          message={errors[`${prefix}.dropdownOptions.${optIndex}.name`]}
+                        />
+                        {showSwatches && (
+                          <>
+                            <div className="flex gap-2">
+                              <Input
+                                type="color"
+                                aria-label="Pick swatch color"
+                                className="w-12 shrink-0 p-1"
+                                value={option.swatchColor || '#000000'}
+                                onChange={(e) =>
+                                  updateOption(option.id, { swatchColor: e.target.value })
+                                }
+                              />
+                              <Input
+                                placeholder="#hex color"
+                                value={option.swatchColor ?? ''}
+                                onChange={(e) =>
+                                  updateOption(option.id, {
+                                    swatchColor: e.target.value.trim() || undefined,
+                                  })
+                                }
+                                {...invalidProps(
+                                  `${prefix}.dropdownOptions.${optIndex}.swatchColor`
+                                )}
+                              />
+                              <Input
+                                placeholder="or image URL"
+                                value={option.swatchImageUrl ?? ''}
+                                onChange={(e) =>
+                                  updateOption(option.id, {
+                                    swatchImageUrl: e.target.value.trim() || undefined,
+                                  })
+                                }
+                                {...invalidProps(
+                                  `${prefix}.dropdownOptions.${optIndex}.swatchImageUrl`
+                                )}
+                              />
+                            </div>
+                            <FieldError
+                              message={
+                                errors[`${prefix}.dropdownOptions.${optIndex}.swatchColor`] ??
+                                errors[`${prefix}.dropdownOptions.${optIndex}.swatchImageUrl`]
+                              }
+                            />
+                          </>
+                        )}
+                      </div>
+                      <div className="w-32 space-y-1">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          placeholder="Price"
+                          value={option.price || ''}
+                          onChange={(e) =>
+                            updateOption(option.id, {
+                              price: parseFloat(e.target.value) || 0,
+                            })
+                          }
+                          {...invalidProps(`${prefix}.dropdownOptions.${optIndex}.price`)}
+                        />
+                        <FieldError
+                          message={errors[`${prefix}.dropdownOptions.${optIndex}.price`]}
+                        />
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeOption(option.id)}
+                        disabled={field.dropdownOptions!.length <= 1}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => addOption()}
+                    className="w-full"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Option
+                  </Button>
+                  <FieldError message={errors[`${prefix}.dropdownOptions`]} />
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Minimum Charge ($) (optional)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="No minimum"
+                    value={field.minPrice ?? ''}
+                    onChange={(e) =>
+                      onUpdate({
+                        minPrice: e.target.value ? parseFloat(e.target.value) : undefined,
+                      })
+                    }
+                    {...invalidProps(`${prefix}.minPrice`)}
+                  />
+                  <FieldError message={errors[`${prefix}.minPrice`]} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Maximum Charge ($) (optional)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="No maximum"
+                    value={field.maxPrice ?? ''}
+                    onChange={(e) =>
+                      onUpdate({
+                        maxPrice: e.target.value ? parseFloat(e.target.value) : undefined,
+                      })
+                    }
+                    {...invalidProps(`${prefix}.maxPrice`)}
+                  />
+                  <FieldError message={errors[`${prefix}.maxPrice`]} />
+                </div>
+              </div>
+            </div>
+          </CollapsibleContent>
+        </CardContent>
+      </Collapsible>
+    </Card>
+  );
+};
+
+export default SpecialFieldCard;
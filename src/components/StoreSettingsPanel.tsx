@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import FieldError from '@/components/FieldError';
+import { useStoreSettings, useUpdateStoreSettings } from '@/hooks/use-store-settings';
+import { toast } from '@/hooks/use-toast';
+import { MAX_SPECIAL_FIELDS_LIMIT } from '@/lib/store-settings';
+
+const StoreSettingsPanel = () => {
+  const settings = useStoreSettings();
+  const updateMutation = useUpdateStoreSettings();
+  // Drafts stay undefined until the user edits them, so the loaded settings show through.
+  const [maxSpecialFields, setMaxSpecialFields] = useState<string>();
+  const [authorName, setAuthorName] = useState<string>();
+
+  const value = maxSpecialFields ?? String(settings.maxSpecialFields);
+  const parsed = Number(value);
+  const error =
+    Number.isInteger(parsed) && parsed >= 1 && parsed <= MAX_SPECIAL_FIELDS_LIMIT
+      ? undefined
+      : `Enter a whole number between 1 and ${MAX_SPECIAL_FIELDS_LIMIT}.`;
+
+  const saveSettings = () => {
+    if (error) return;
+
+    updateMutation.mutate(
+      {
+        ...settings,
+        maxSpecialFields: parsed,
+        authorName: (authorName ?? settings.authorName).trim(),
+      },
+      {
+        onSuccess: () => {
+          setMaxSpecialFields(undefined);
+          setAuthorName(undefined);
+          toast({
+            title: 'Settings Saved',
+            description: 'Store settings have been updated.',
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="mx-auto max-w-5xl space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Store Settings</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Defaults that apply to every product in your store
+            </p>
+          </div>
+          <Button variant="outline" asChild>
+            <Link to="/products">View Catalog</Link>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Special Fields</CardTitle>
+            <CardDescription>Limits for the customizable fields on each product</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2 max-w-xs">
+              <Label htmlFor="maxSpecialFields">Maximum special fields per product</Label>
+              <Input
+                id="maxSpecialFields"
+                type="number"
+                min="1"
+                max={MAX_SPECIAL_FIELDS_LIMIT}
+                step="1"
+                value={value}
+                onChange={(e) => setMaxSpecialFields(e.target.value)}
+                aria-invalid={!!error}
+              />
+              <FieldError message={error} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Version History</CardTitle>
+            <CardDescription>Every product save is recorded as a version</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2 max-w-xs">
+              <Label htmlFor="authorName">Your name</Label>
+              <Input
+                id="authorName"
+                placeholder="Shown as the author of versions you save"
+                value={authorName ?? settings.authorName}
+                onChange={(e) => setAuthorName(e.target.value)}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end">
+          <Button
+            variant="black"
+            onClick={saveSettings}
+            disabled={!!error || updateMutation.isPending}
+          >
+            Save Settings
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StoreSettingsPanel;
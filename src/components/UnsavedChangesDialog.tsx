@@ -0,0 +1,45 @@
+import type { Blocker } from 'react-router-dom';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface UnsavedChangesDialogProps {
+  blocker: Blocker;
+}
+
+const UnsavedChangesDialog = ({ blocker }: UnsavedChangesDialogProps) => (
+  <AlertDialog
+    open={blocker.state === 'blocked'}
+    onOpenChange={(open) => {
+      if (!open && blocker.state === 'blocked') blocker.reset();
+    }}
+  >
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Discard unsaved changes?</AlertDialogTitle>
+        <AlertDialogDescription>
+          You have changes to this product that have not been saved. Leaving this page will
+          discard them.
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel>Keep Editing</AlertDialogCancel>
+        <AlertDialogAction
+          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          onClick={() => blocker.proceed?.()}
+        >
+          Discard Changes
+        </AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
+
+export default UnsavedChangesDialog;
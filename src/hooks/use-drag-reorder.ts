@@ -0,0 +1,59 @@
+import * as React from 'react';
+
+/**
+ * Native HTML5 drag-and-drop for reordering a list. Spread `getItemProps` on
+ * each row and `getHandleProps` on its drag handle; the handle also moves the
+ * row with ArrowUp/ArrowDown so reordering works from the keyboard.
+ */
+export function useDragReorder(itemCount: number, onMove: (from: number, to: number) => void) {
+  const [dragIndex, setDragIndex] = React.useState<number | null>(null);
+  const [overIndex, setOverIndex] = React.useState<number | null>(null);
+
+  const reset = () => {
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  const getItemProps = (index: number) => ({
+    'data-drag-item': true,
+    onDragOver: (event: React.DragEvent) => {
+      // Ignore drags that belong to another list, e.g. nested option rows.
+      if (dragIndex === null) return;
+      event.preventDefault();
+      event.stopPropagation();
+      event.dataTransfer.dropEffect = 'move';
+      if (overIndex !== index) setOverIndex(index);
+    },
+    onDrop: (event: React.DragEvent) => {
+      if (dragIndex === null) return;
+      event.preventDefault();
+      event.stopPropagation();
+      if (dragIndex !== index) onMove(dragIndex, index);
+      reset();
+    },
+  });
+
+  const getHandleProps = (index: number) => ({
+    draggable: true,
+    onDragStart: (event: React.DragEvent<HTMLElement>) => {
+      event.stopPropagation();
+      event.dataTransfer.effectAllowed = 'move';
+      event.dataTransfer.setData('text/plain', String(index));
+      const item = event.currentTarget.closest('[data-drag-item]');
+      if (item) event.dataTransfer.setDragImage(item, 0, 0);
+      setDragIndex(index);
+    },
+    onDragEnd: reset,
+    onKeyDown: (event: React.KeyboardEvent) => {
+      if (event.key === 'ArrowUp' && index > 0) {
+        event.preventDefault();
+        onMove(index, index - 1);
+      } else if (event.key === 'ArrowDown' && index < itemCount - 1) {
+        event.preventDefault();
+        onMove(index, index + 1);
+      }
+    },
+  });
+
+  return { dragIndex, overIndex, getItemProps, getHandleProps };
+}
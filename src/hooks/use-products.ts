@@ -0,0 +1,108 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { ProductData } from '@/lib/product';
+import { productRepository, type StoredProduct } from '@/lib/product-repository';
+
+export const productKeys = {
+  all: ['products'] as const,
+  detail: (id: string) => ['products', id] as const,
+  versions: (id: string) => ['products', id, 'versions'] as const,
+};
+
+export function useProducts() {
+  return useQuery({
+    queryKey: productKeys.all,
+    queryFn: () => productRepository.list(),
+  });
+}
+
+export function useProduct(id: string | undefined) {
+  return useQuery({
+    queryKey: productKeys.detail(id ?? ''),
+    queryFn: () => productRepository.get(id!).then((stored) => stored ?? null),
+    enabled: !!id,
+  });
+}
+
+export function useProductVersions(id: string | undefined) {
+  return useQuery({
+    queryKey: productKeys.versions(id ?? ''),
+    queryFn: () => productRepository.listVersions(id!),
+    enabled: !!id,
+  });
+}
+
+interface SaveProductInput {
+  id?: string;
+  product: ProductData;
+  /** Recorded on the version this save creates. */
+  author: string;
+}
+
+/**
+ * Creates the product when no `id` is given, otherwise updates it in place.
+ * Either way the repository records a new version.
+ */
+export function useSaveProduct() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, product, author }: SaveProductInput): Promise<StoredProduct> =>
+      id ? productRepository.update(id, product, author) : productRepository.create(product, author),
+    onSuccess: (stored) => {
+      queryClient.setQueryData(productKeys.detail(stored.id), stored);
+      queryClient.invalidateQueries({ queryKey: productKeys.versions(stored.id) });
+      queryClient.invalidateQueries({ queryKey: productKeys.all, exact: true });
+    },
+  });
+}
+
+interface ImportProductsInput {
+  products: ProductData[];
+  author: string;
+}
+
+/** Thrown when a bulk import fails partway; `created` lists the products stored before that. */
+export class ProductImportError extends Error {
+  constructor(
+    readonly created: StoredProduct[],
+    readonly cause: unknown
+  ) {
+    super(cause instanceof Error ? cause.message : 'A product could not be created.');
+    this.name = 'ProductImportError';
+  }
+}
+
+/** Creates several products in order, stopping at the first failure. */
+export function useImportProducts() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ products, author }: ImportProductsInput): Promise<StoredProduct[]> => {
+      const created: StoredProduct[] = [];
+      for (const product of products) {
+        try {
+          created.push(await productRepository.create(product, author));
+        } catch (error) {
+          throw new ProductImportError(created, error);
+        }
+      }
+      return created;
+    },
+    // Refresh the catalog even after a failure, since earlier products were kept.
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: productKeys.all, exact: true });
+    },
+  });
+}
+
+export function useDeleteProduct() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => productRepository.remove(id),
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: productKeys.detail(id) });
+      queryClient.invalidateQueries({ queryKey: productKeys.all, exact: true });
+    },
+  });
+}
@@ -0,0 +1,28 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  DEFAULT_STORE_SETTINGS,
+  storeSettingsRepository,
+  type StoreSettings,
+} from '@/lib/store-settings';
+
+const storeSettingsKey = ['store-settings'] as const;
+
+/** Current store settings; falls back to the defaults while loading. */
+export function useStoreSettings(): StoreSettings {
+  const { data } = useQuery({
+    queryKey: storeSettingsKey,
+    queryFn: () => storeSettingsRepository.get(),
+  });
+  return data ?? DEFAULT_STORE_SETTINGS;
+}
+
+export function useUpdateStoreSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (settings: StoreSettings) => storeSettingsRepository.update(settings),
+    onSuccess: (settings) => {
+      queryClient.setQueryData(storeSettingsKey, settings);
+    },
+  });
+}
@@ -0,0 +1,72 @@
+import * as React from 'react';
+
+const HISTORY_LIMIT = 100;
+// Consecutive updates closer together than this (e.g. keystrokes) form one undo step.
+const MERGE_WINDOW_MS = 500;
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+interface SetOptions {
+  /** Always record a separate undo step, e.g. for destructive actions. */
+  checkpoint?: boolean;
+}
+
+/**
+ * `useState` with an undo/redo stack. `undo` and `redo` are stable, so they
+ * can safely be captured by toasts or event listeners.
+ */
+export function useUndoableState<T>(initial: T | (() => T)) {
+  const [history, setHistory] = React.useState<History<T>>(() => ({
+    past: [],
+    present: typeof initial === 'function' ? (initial as () => T)() : initial,
+    future: [],
+  }));
+  const lastChangeRef = React.useRef(0);
+
+  const set = React.useCallback((next: T, { checkpoint = false }: SetOptions = {}) => {
+    const now = Date.now();
+    const merge = !checkpoint && now - lastChangeRef.current < MERGE_WINDOW_MS;
+    lastChangeRef.current = checkpoint ? 0 : now;
+
+    setHistory((history) => {
+      const { past, present } = history;
+      if (Object.is(next, present)) return history;
+      return {
+        past: merge ? past : [...past, present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+      };
+    });
+  }, []);
+
+  const undo = React.useCallback(() => {
+    lastChangeRef.current = 0;
+    setHistory((history) => {
+      const { past, present, future } = history;
+      if (past.length === 0) return history;
+      return { past: past.slice(0, -1), present: past[past.length - 1], future: [present, ...future] };
+    });
+  }, []);
+
+  const redo = React.useCallback(() => {
+    lastChangeRef.current = 0;
+    setHistory((history) => {
+      const { past, present, future } = history;
+      if (future.length === 0) return history;
+      return { past: [...past, present], present: future[0], future: future.slice(1) };
+    });
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
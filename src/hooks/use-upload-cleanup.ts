@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+import { getUploadedFiles } from '@/lib/file-field';
+import { fileStorage } from '@/lib/file-storage';
+import type { CustomerValues, UploadedFile } from '@/lib/product';
+
+// The files are already gone from the order; a failed cleanup only leaves unused storage.
+const removeUploads = (files: UploadedFile[]) =>
+  files.forEach((file) => fileStorage.remove(file.id).catch(() => undefined));
+
+/**
+ * Deletes stored uploads once the customer values stop referring to them, e.g.
+ * when a file or its field is removed or the preview is cleared, and deletes
+ * the rest when the component unmounts.
+ */
+export function useUploadCleanup(values: CustomerValues) {
+  const previousValues = useRef(values);
+
+  useEffect(() => {
+    const kept = new Set(getUploadedFiles(values).map((file) => file.id));
+    removeUploads(getUploadedFiles(previousValues.current).filter((file) => !kept.has(file.id)));
+    previousValues.current = values;
+  }, [values]);
+
+  useEffect(() => {
+    const latest = previousValues;
+    return () => removeUploads(getUploadedFiles(latest.current));
+  }, []);
+}
@@ -0,0 +1,111 @@
+import { getDateError, parseDateValue } from '@/lib/date-field';
+import { getVisibleFields } from '@/lib/field-visibility';
+import { getFileError } from '@/lib/file-field';
+import type {
+  CustomerValue,
+  CustomerValues,
+  ProductData,
+  SpecialField,
+  UploadedFile,
+} from '@/lib/product';
+
+/** Error message per special field id. */
+export type CustomerValidationErrors = Record<string, string>;
+
+const isEmpty = (value: CustomerValue | undefined) =>
+  value === undefined ||
+  value === false ||
+  (typeof value === 'string' && !value.trim()) ||
+  (Array.isArray(value) && value.length === 0);
+
+const validateFieldValue = (
+  field: SpecialField,
+  value: CustomerValue | undefined,
+  today: Date
+): string | undefined => {
+  if (isEmpty(value)) {
+    if (!field.required) return undefined;
+    return field.type === 'checkbox' ? 'This box must be checked.' : 'This field is required.';
+  }
+
+  switch (field.type) {
+    case 'text': {
+      const length = String(value).length;
+      if (field.minLength !== undefined && length < field.minLength) {
+        return `Enter at least ${field.minLength} characters.`;
+      }
+      if (field.maxLength !== undefined && length > field.maxLength) {
+        return `Enter no more than ${field.maxLength} characters.`;
+      }
+      return undefined;
+    }
+    case 'number': {
+      if (typeof value !== 'number' || Number.isNaN(value)) return 'Enter a valid number.';
+      if (!field.allowDecimal && !Number.isInteger(value)) return 'Enter a whole number.';
+      if (field.minValue !== undefined && value < field.minValue) {
+        return `Enter a value of at least ${field.minValue}.`;
+      }
+      if (field.minValue === undefined && value < 0) return 'Enter a value of at least 0.';
+      if (field.maxValue !== undefined && value > field.maxValue) {
+        return `Enter a value no greater than ${field.maxValue}.`;
+      }
+      return undefined;
+    }
+    case 'dropdown':
+      return field.dropdownOptions?.some((opt) => opt.id === value)
+        ? undefined
+        : 'Select one of the available options.';
+    case 'checkbox':
+      return value === true ? undefined : 'Check or clear this box.';
+    case 'multiselect': {
+      const selected = (Array.isArray(value) ? value : []) as string[];
+      if (!selected.every((id) => field.dropdownOptions?.some((opt) => opt.id === id))) {
+        return 'Select only the available options.';
+      }
+      if (field.minSelections !== undefined && selected.length < field.minSelections) {
+        return `Select at least ${field.minSelections} ${
+          field.minSelections === 1 ? 'option' : 'options'
+        }.`;
+      }
+      if (field.maxSelections !== undefined && selected.length > field.maxSelections) {
+        return `Select no more than ${field.maxSelections} ${
+          field.maxSelections === 1 ? 'option' : 'options'
+        }.`;
+      }
+      return undefined;
+    }
+    case 'file': {
+      const files = (Array.isArray(value) ? value : []) as UploadedFile[];
+      if (field.maxFiles !== undefined && files.length > field.maxFiles) {
+        return `Upload no more than ${field.maxFiles} ${field.maxFiles === 1 ? 'file' : 'files'}.`;
+      }
+      for (const file of files) {
+        const error = getFileError(field, file);
+        if (error) return error;
+      }
+      return undefined;
+    }
+    case 'date': {
+      const date = parseDateValue(value);
+      return date ? getDateError(field, date, today) : 'Choose a valid date.';
+    }
+  }
+};
+
+/**
+ * Checks customer input against each visible special field's constraints. A
+ * product configuration is orderable only when this returns no errors.
+ */
+export const validateCustomerValues = (
+  product: ProductData,
+  customerValues: CustomerValues,
+  today: Date = new Date()
+): CustomerValidationErrors => {
+  const errors: CustomerValidationErrors = {};
+
+  for (const field of getVisibleFields(product, customerValues)) {
+    const error = validateFieldValue(field, customerValues[field.id], today);
+    if (error) errors[field.id] = error;
+  }
+  return errors;
+};
@@ -0,0 +1,48 @@
+import { differenceInCalendarDays, format, isValid, parseISO } from 'date-fns';
+import type { SpecialField } from '@/lib/product';
+
+/**
+ * Helpers for date special fields. Dates are stored as `yyyy-MM-dd` strings,
+ * both in the field configuration and in customer values, so they survive
+ * JSON round trips without time zone shifts.
+ */
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const parseDateValue = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const date = parseISO(value);
+  return isValid(date) ? date : undefined;
+};
+
+export const formatDateValue = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+/** E.g. "Mar 5, 2026". */
+export const formatDisplayDate = (value: string): string => {
+  const date = parseDateValue(value);
+  return date ? format(date, 'PP') : value;
+};
+
+/** Why the customer cannot pick `date` for this field, or undefined when they can. */
+export const getDateError = (
+  field: SpecialField,
+  date: Date,
+  today: Date = new Date()
+): string | undefined => {
+  const earliest = parseDateValue(field.earliestDate);
+  const latest = parseDateValue(field.latestDate);
+
+  if (differenceInCalendarDays(date, today) < 0) return 'Choose a date that is not in the past.';
+  if (earliest && date < earliest) return `Choose ${format(earliest, 'PP')} or later.`;
+  if (latest && date > latest) return `Choose ${format(latest, 'PP')} or earlier.`;
+  if (field.blockedWeekdays?.includes(date.getDay())) {
+    return `${format(date, 'EEEE')}s are not available.`;
+  }
+  return undefined;
+};
+
+/** Whether `date` falls inside the field's rush window, counting today as day 0. */
+export const isRushDate = (field: SpecialField, date: Date, today: Date = new Date()): boolean =>
+  field.rushDays !== undefined &&
+  !!field.rushSurcharge &&
+  differenceInCalendarDays(date, today) <= field.rushDays;
@@ -0,0 +1,118 @@
+import type {
+  CustomerValue,
+  CustomerValues,
+  FieldType,
+  ProductData,
+  SpecialField,
+  VisibilityOperator,
+  VisibilityRule,
+} from '@/lib/product';
+
+/** The operator a rule must use for each type of controlling field. */
+export const VISIBILITY_OPERATORS: Record<FieldType, VisibilityOperator> = {
+  text: 'notEmpty',
+  number: 'greaterThan',
+  dropdown: 'equals',
+  checkbox: 'notEmpty',
+  multiselect: 'equals',
+  date: 'notEmpty',
+  file: 'notEmpty',
+};
+
+/** A rule on `controller` that holds as soon as the customer gives it a value. */
+export const createVisibilityRule = (controller: SpecialField): VisibilityRule => {
+  const operator = VISIBILITY_OPERATORS[controller.type];
+  switch (operator) {
+    case 'equals':
+      return { fieldId: controller.id, operator, optionId: controller.dropdownOptions?.[0]?.id };
+    case 'greaterThan':
+      return { fieldId: controller.id, operator, threshold: 0 };
+    default:
+      return { fieldId: controller.id, operator };
+  }
+};
+
+const testRule = (rule: VisibilityRule, value: CustomerValue | undefined): boolean => {
+  switch (rule.operator) {
+    case 'equals':
+      return Array.isArray(value)
+        ? (value as string[]).includes(rule.optionId)
+        : value !== undefined && value === rule.optionId;
+    case 'notEmpty':
+      return (
+        value === true ||
+        (typeof value === 'string' && value.trim() !== '') ||
+        (Array.isArray(value) && value.length > 0)
+      );
+    case 'greaterThan':
+      return typeof value === 'number' && value > (rule.threshold ?? 0);
+  }
+};
+
+/**
+ * Special fields the customer is shown for the given input. A field with a
+ * rule is visible only while its controlling field is itself visible and the
+ * rule holds, so hiding a field also hides everything that depends on it.
+ * Rules that reference a missing field or form a cycle hide the field.
+ */
+export const getVisibleFields = (
+  product: ProductData,
+  customerValues: CustomerValues
+): SpecialField[] => {
+  if (!product.specialFieldsEnabled) return [];
+
+  const fieldsById = new Map(product.specialFields.map((field) => [field.id, field]));
+  const visibility = new Map<string, boolean>();
+
+  const isVisible = (field: SpecialField, resolving: Set<string>): boolean => {
+    if (visibility.has(field.id)) return visibility.get(field.id);
+    const rule = field.visibleWhen;
+    let visible = true;
+    if (rule) {
+      const controller = fieldsById.get(rule.fieldId);
+      visible =
+        !!controller &&
+        !resolving.has(controller.id) &&
+        isVisible(controller, new Set(resolving).add(controller.id)) &&
+        testRule(rule, customerValues[controller.id]);
+    }
+    visibility.set(field.id, visible);
+    return visible;
+  };
+
+  return product.specialFields.filter((field) => isVisible(field, new Set([field.id])));
+};
+
+/** Ids of the fields whose rules form a cycle, e.g. A shown when B, B shown when A. */
+export const findVisibilityCycles = (fields: SpecialField[]): Set<string> => {
+  const fieldsById = new Map(fields.map((field) => [field.id, field]));
+  const cyclic = new Set<string>();
+
+  for (const field of fields) {
+    const seen = new Set<string>();
+    let current: SpecialField | undefined = field;
+    while (current?.visibleWhen && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = fieldsById.get(current.visibleWhen.fieldId);
+    }
+    if (current?.id === field.id) cyclic.add(field.id);
+  }
+  return cyclic;
+};
+
+/** E.g. `Shown when "Gift wrap" is "Yes"`. */
+export const describeVisibilityRule = (rule: VisibilityRule, fields: SpecialField[]): string => {
+  const controller = fields.find((field) => field.id === rule.fieldId);
+  const name = `"${controller?.label || 'Untitled'}"`;
+  switch (rule.operator) {
+    case 'equals': {
+      const option = controller?.dropdownOptions?.find((opt) => opt.id === rule.optionId);
+      const verb = controller?.type === 'multiselect' ? 'includes' : 'is';
+      return `Shown when ${name} ${verb} "${option?.name || 'Unnamed Option'}"`;
+    }
+    case 'notEmpty':
+      return `Shown when ${name} is ${controller?.type === 'checkbox' ? 'checked' : 'filled in'}`;
+    case 'greaterThan':
+      return `Shown when ${name} is greater than ${rule.threshold ?? 0}`;
+  }
+};
@@ -0,0 +1,43 @@
+import type { CustomerValues, SpecialField, UploadedFile } from '@/lib/product';
+
+/** Matches `image/*`-style wildcards as well as exact MIME types. */
+export const isAcceptedFileType = (field: SpecialField, type: string): boolean => {
+  if (!field.allowedMimeTypes?.length) return true;
+  const normalized = type.toLowerCase();
+  return field.allowedMimeTypes.some((allowed) => {
+    const pattern = allowed.trim().toLowerCase();
+    return pattern.endsWith('/*')
+      ? normalized.startsWith(pattern.slice(0, -1))
+      : normalized === pattern;
+  });
+};
+
+/** E.g. "512 KB" or "2.4 MB". */
+export const formatFileSize = (bytes: number): string =>
+  bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/** Why this file cannot be uploaded to the field, or undefined when it can. */
+export const getFileError = (
+  field: SpecialField,
+  file: Pick<UploadedFile, 'name' | 'type' | 'size'>
+): string | undefined => {
+  if (!isAcceptedFileType(field, file.type)) {
+    return `"${file.name}" is not an accepted file type (${field.allowedMimeTypes.join(', ')}).`;
+  }
+  if (field.maxFileSizeMb !== undefined && file.size > field.maxFileSizeMb * 1024 * 1024) {
+    return `"${file.name}" is larger than ${field.maxFileSizeMb} MB.`;
+  }
+  return undefined;
+};
+
+/** Every upload the customer values refer to, across all file fields. */
+export const getUploadedFiles = (values: CustomerValues): UploadedFile[] =>
+  Object.values(values).flatMap((value) =>
+    Array.isArray(value)
+      ? (value as unknown[]).filter(
+          (item): item is UploadedFile => typeof item === 'object' && item !== null
+        )
+      : []
+  );
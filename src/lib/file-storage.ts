@@ -0,0 +1,97 @@
+import type { UploadedFile } from '@/lib/product';
+import { generateId } from '@/lib/utils';
+
+/**
+ * Storage boundary for customer uploads. Customer values only keep the
+ * `UploadedFile` metadata; the contents are stored here, so a server-backed
+ * implementation can replace the local ones without touching the UI.
+ */
+export interface FileStorageAdapter {
+  put(file: File): Promise<UploadedFile>;
+  get(id: string): Promise<Blob | undefined>;
+  remove(id: string): Promise<void>;
+}
+
+const toUploadedFile = (id: string, file: File): UploadedFile => ({
+  id,
+  name: file.name,
+  type: file.type,
+  size: file.size,
+});
+
+/** Keeps uploads for the lifetime of the page. */
+export class InMemoryFileStorage implements FileStorageAdapter {
+  private readonly files = new Map<string, Blob>();
+
+  async put(file: File): Promise<UploadedFile> {
+    const id = generateId();
+    this.files.set(id, file);
+    return toUploadedFile(id, file);
+  }
+
+  async get(id: string): Promise<Blob | undefined> {
+    return this.files.get(id);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.files.delete(id);
+  }
+}
+
+/** Keeps uploads in the browser across reloads. */
+export class IndexedDbFileStorage implements FileStorageAdapter {
+  private database: Promise<IDBDatabase> | undefined;
+
+  constructor(
+    private readonly databaseName = 'customer-uploads',
+    private readonly storeName = 'files'
+  ) {}
+
+  private open(): Promise<IDBDatabase> {
+    this.database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.databaseName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      // Let the next call try again instead of failing forever.
+      this.database = undefined;
+      throw error;
+    });
+    return this.database;
+  }
+
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const database = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async put(file: File): Promise<UploadedFile> {
+    const id = generateId();
+    await this.run('readwrite', (store) => store.put(file, id));
+    return toUploadedFile(id, file);
+  }
+
+  async get(id: string): Promise<Blob | undefined> {
+    return this.run<Blob | undefined>('readonly', (store) => store.get(id));
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.run('readwrite', (store) => store.delete(id));
+  }
+}
+
+/**
+ * Customer values are not persisted, so uploads only need to last as long as
+ * the page; IndexedDB storage would keep them after a reload with nothing
+ * referring to them.
+ */
+export const fileStorage: FileStorageAdapter = new InMemoryFileStorage();
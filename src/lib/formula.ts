@@ -0,0 +1,277 @@
+/**
+ * Parser and evaluator for pricing formulas such as
+ * `{Width} * {Height} * 0.05 + basePrice`. Formulas are parsed into a small
+ * syntax tree and evaluated by walking it, so they can only do arithmetic on
+ * the values they are given and never run as code.
+ *
+ * Supported syntax: numbers, `{Field Label}` references, the `basePrice`
+ * variable, `+ - * / % ^`, parentheses, and the functions listed in
+ * `FORMULA_FUNCTIONS`.
+ */
+
+export type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'basePrice' }
+  | { kind: 'field'; label: string }
+  | { kind: 'negate'; operand: FormulaNode }
+  | { kind: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: FormulaFunction; args: FormulaNode[] };
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '^';
+
+type FormulaFunction = 'min' | 'max' | 'round' | 'ceil' | 'floor' | 'abs';
+
+interface FormulaFunctionDefinition {
+  minArgs: number;
+  maxArgs: number;
+  apply: (...values: number[]) => number;
+}
+
+/** Functions a formula may call, with the number of arguments each accepts. */
+export const FORMULA_FUNCTIONS: Record<FormulaFunction, FormulaFunctionDefinition> = {
+  min: { minArgs: 1, maxArgs: Infinity, apply: Math.min },
+  max: { minArgs: 1, maxArgs: Infinity, apply: Math.max },
+  round: { minArgs: 1, maxArgs: 1, apply: Math.round },
+  ceil: { minArgs: 1, maxArgs: 1, apply: Math.ceil },
+  floor: { minArgs: 1, maxArgs: 1, apply: Math.floor },
+  abs: { minArgs: 1, maxArgs: 1, apply: Math.abs },
+};
+
+export class FormulaSyntaxError extends Error {
+  constructor(
+    message: string,
+    /** Character offset in the formula where the problem was found. */
+    readonly position: number
+  ) {
+    super(message);
+    this.name = 'FormulaSyntaxError';
+  }
+}
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'identifier'; name: string; position: number }
+  | { type: 'field'; label: string; position: number }
+  | { type: 'symbol'; symbol: string; position: number }
+  | { type: 'end'; position: number };
+
+const SYMBOLS = '+-*/%^(),';
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[\d.]/.test(char)) {
+      const match = source.slice(i).match(/^(\d+\.?\d*|\.\d+)/);
+      if (!match) throw new FormulaSyntaxError(`Unexpected "${char}".`, i);
+      tokens.push({ type: 'number', value: Number(match[1]), position: i });
+      i += match[1].length;
+    } else if (/[a-z_]/i.test(char)) {
+      const name = source.slice(i).match(/^[a-z_]\w*/i)[0];
+      tokens.push({ type: 'identifier', name, position: i });
+      i += name.length;
+    } else if (char === '{') {
+      const end = source.indexOf('}', i);
+      if (end < 0) throw new FormulaSyntaxError('A field reference is missing its "}".', i);
+      const label = source.slice(i + 1, end).trim();
+      if (!label) throw new FormulaSyntaxError('Put a field label between "{" and "}".', i);
+      tokens.push({ type: 'field', label, position: i });
+      i = end + 1;
+    } else if (SYMBOLS.includes(char)) {
+      tokens.push({ type: 'symbol', symbol: char, position: i });
+      i++;
+    } else {
+      throw new FormulaSyntaxError(`Unexpected "${char}".`, i);
+    }
+  }
+
+  tokens.push({ type: 'end', position: source.length });
+  return tokens;
+};
+
+/** Recursive descent parser; each level handles one operator precedence. */
+const parseTokens = (tokens: Token[]): FormulaNode => {
+  let index = 0;
+  const peek = () => tokens[index];
+  const isSymbol = (symbol: string) => {
+    const token = peek();
+    return token.type === 'symbol' && token.symbol === symbol;
+  };
+  const expect = (symbol: string) => {
+    if (!isSymbol(symbol)) throw new FormulaSyntaxError(`Expected "${symbol}".`, peek().position);
+    index++;
+  };
+
+  const parseAdditive = (): FormulaNode => {
+    let node = parseMultiplicative();
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = (tokens[index++] as { symbol: BinaryOperator }).symbol;
+      node = { kind: 'binary', operator, left: node, right: parseMultiplicative() };
+    }
+    return node;
+  };
+
+  const parseMultiplicative = (): FormulaNode => {
+    let node = parseUnary();
+    while (isSymbol('*') || isSymbol('/') || isSymbol('%')) {
+      const operator = (tokens[index++] as { symbol: BinaryOperator }).symbol;
+      node = { kind: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (isSymbol('-')) {
+      index++;
+      return { kind: 'negate', operand: parseUnary() };
+    }
+    if (isSymbol('+')) {
+      index++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // `^` binds tighter than unary minus on its left and is right-associative.
+  const parsePower = (): FormulaNode => {
+    const base = parsePrimary();
+    if (!isSymbol('^')) return base;
+    index++;
+    return { kind: 'binary', operator: '^', left: base, right: parseUnary() };
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = tokens[index++];
+    switch (token.type) {
+      case 'number':
+        return { kind: 'number', value: token.value };
+      case 'field':
+        return { kind: 'field', label: token.label };
+      case 'identifier': {
+        if (token.name === 'basePrice') return { kind: 'basePrice' };
+        if (!Object.keys(FORMULA_FUNCTIONS).includes(token.name)) {
+          throw new FormulaSyntaxError(
+            `Unknown name "${token.name}". Put field labels in braces, e.g. {${token.name}}.`,
+            token.position
+          );
+        }
+        const name = token.name as FormulaFunction;
+        expect('(');
+        const args: FormulaNode[] = [];
+        if (!isSymbol(')')) {
+          args.push(parseAdditive());
+          while (isSymbol(',')) {
+            index++;
+            args.push(parseAdditive());
+          }
+        }
+        expect(')');
+        const { minArgs, maxArgs } = FORMULA_FUNCTIONS[name];
+        if (args.length < minArgs || args.length > maxArgs) {
+          throw new FormulaSyntaxError(
+            maxArgs === minArgs
+              ? `${name}() takes ${minArgs} ${minArgs === 1 ? 'value' : 'values'}.`
+              : `${name}() takes at least ${minArgs} ${minArgs === 1 ? 'value' : 'values'}.`,
+            token.position
+          );
+        }
+        return { kind: 'call', name, args };
+      }
+      case 'symbol':
+        if (token.symbol === '(') {
+          const node = parseAdditive();
+          expect(')');
+          return node;
+        }
+        throw new FormulaSyntaxError(`Unexpected "${token.symbol}".`, token.position);
+      default:
+        throw new FormulaSyntaxError('The formula ends too early.', token.position);
+    }
+  };
+
+  const node = parseAdditive();
+  const rest = peek();
+  if (rest.type !== 'end') throw new FormulaSyntaxError('Expected an operator.', rest.position);
+  return node;
+};
+
+/** Parses a formula, throwing a `FormulaSyntaxError` when it is malformed. */
+export const parseFormula = (source: string): FormulaNode => parseTokens(tokenize(source));
+
+/** Labels of every `{Field}` the formula refers to, in order of first use. */
+export const getFormulaReferences = (node: FormulaNode): string[] => {
+  const labels = new Set<string>();
+  const visit = (current: FormulaNode) => {
+    switch (current.kind) {
+      case 'field':
+        labels.add(current.label);
+        break;
+      case 'negate':
+        visit(current.operand);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+      case 'call':
+        current.args.forEach(visit);
+        break;
+    }
+  };
+  visit(node);
+  return [...labels];
+};
+
+export interface FormulaScope {
+  basePrice: number;
+  /** Value of the field with this label; unknown labels should resolve to 0. */
+  field: (label: string) => number;
+}
+
+/** Evaluates a parsed formula. Results that are not finite (e.g. division by zero) become 0. */
+export const evaluateFormula = (node: FormulaNode, scope: FormulaScope): number => {
+  const evaluate = (current: FormulaNode): number => {
+    switch (current.kind) {
+      case 'number':
+        return current.value;
+      case 'basePrice':
+        return scope.basePrice;
+      case 'field':
+        return scope.field(current.label);
+      case 'negate':
+        return -evaluate(current.operand);
+      case 'call':
+        return FORMULA_FUNCTIONS[current.name].apply(...current.args.map(evaluate));
+      case 'binary': {
+        const left = evaluate(current.left);
+        const right = evaluate(current.right);
+        switch (current.operator) {
+          case '+':
+            return left + right;
+          case '-':
+            return left - right;
+          case '*':
+            return left * right;
+          case '/':
+            return left / right;
+          case '%':
+            return left % right;
+          case '^':
+            return left ** right;
+        }
+      }
+    }
+  };
+  const result = evaluate(node);
+  return Number.isFinite(result) ? result : 0;
+};
+
+/** Rewrites `{from}` references to `{to}`, e.g. after a field is renamed. */
+export const renameFormulaReference = (source: string, from: string, to: string): string =>
+  source.replace(/\{([^}]*)\}/g, (reference, label: string) =>
+    label.trim().toLowerCase() === from.trim().toLowerCase() ? `{${to}}` : reference
+  );
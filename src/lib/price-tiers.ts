@@ -0,0 +1,45 @@
+import type { PriceTier, PricingModel } from '@/lib/product';
+
+/**
+ * Helpers for tiered and graduated pricing. Tiers are kept in ascending
+ * `minQuantity` order; each one covers quantities up to the next tier's
+ * `minQuantity`, and the last one has no upper bound.
+ */
+
+export const usesPriceTiers = (pricingModel: PricingModel): boolean =>
+  pricingModel === 'tiered' || pricingModel === 'graduated';
+
+/** Units of one tier that a graduated price is charged for. */
+export interface TierPortion {
+  tier: PriceTier;
+  quantity: number;
+}
+
+/** The tier a quantity reaches; quantities below the first tier use the first tier. */
+export const findTier = (tiers: PriceTier[], quantity: number): PriceTier | undefined =>
+  tiers.reduce<PriceTier | undefined>(
+    (reached, tier) => (quantity >= tier.minQuantity ? tier : reached),
+    tiers[0]
+  );
+
+/**
+ * Splits a quantity over the tiers it passes through, e.g. 12 units over
+ * tiers starting at 1 and 10 gives 9 units of the first and 3 of the second.
+ */
+export const splitIntoTiers = (tiers: PriceTier[], quantity: number): TierPortion[] =>
+  tiers
+    .map((tier, index) => {
+      const lower = index === 0 ? 0 : tier.minQuantity - 1;
+      const next = tiers[index + 1];
+      const upper = next ? next.minQuantity - 1 : Infinity;
+      return { tier, quantity: Math.max(0, Math.min(quantity, upper) - lower) };
+    })
+    .filter((portion) => portion.quantity > 0);
+
+/** E.g. "1–9" or "50+". */
+export const describeTierRange = (tiers: PriceTier[], tier: PriceTier): string => {
+  const next = tiers[tiers.indexOf(tier) + 1];
+  if (!next) return `${tier.minQuantity}+`;
+  const last = next.minQuantity - 1;
+  return last <= tier.minQuantity ? `${tier.minQuantity}` : `${tier.minQuantity}–${last}`;
+};
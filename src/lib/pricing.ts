@@ -0,0 +1,295 @@
+import { isRushDate, parseDateValue } from '@/lib/date-field';
+import { getVisibleFields } from '@/lib/field-visibility';
+import { evaluateFormula, parseFormula, type FormulaScope } from '@/lib/formula';
+import { describeTierRange, findTier, splitIntoTiers, type TierPortion } from '@/lib/price-tiers';
+import type {
+  CustomerValue,
+  CustomerValues,
+  DropdownOption,
+  PriceTier,
+  ProductData,
+  SpecialField,
+} from '@/lib/product';
+import { countCharacters, countLines, countWords } from '@/lib/text-field';
+
+/**
+ * One priced special field. `quantity` is the number of billable units the
+ * pricing model was applied to (characters, words, lines, units, or 1 for a
+ * flat charge); it is 0 when the customer has not provided a value.
+ */
+export interface PriceLine {
+  fieldId: string;
+  label: string;
+  field: SpecialField;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  option?: DropdownOption;
+  /** Options picked in a multi-select field; each adds its own price. */
+  options?: DropdownOption[];
+  /** Units of `quantity` that are free under the field's `includedQuantity`. */
+  includedQuantity?: number;
+  /** Added on top of `quantity × unitPrice` for date fields inside the rush window. */
+  rushSurcharge?: number;
+  /** Tier whose unit price applied to every unit under `tiered` pricing. */
+  tier?: PriceTier;
+  /** Units charged in each tier under `graduated` pricing. */
+  tierPortions?: TierPortion[];
+  /** Result of the field's formula under `formula` pricing. */
+  formulaResult?: number;
+  /** Set when the field's price bounds changed `amount`. */
+  cap?: PriceCap;
+  uncappedAmount?: number;
+}
+
+export type PriceCap = 'minimum' | 'maximum';
+
+export interface PriceBreakdown {
+  basePrice: number;
+  lines: PriceLine[];
+  subtotal: number;
+  /** Set when the product's price bounds changed `subtotal`. */
+  cap?: PriceCap;
+  uncappedSubtotal?: number;
+}
+
+/** Clamps an amount to optional bounds, reporting which bound applied. */
+const applyPriceCaps = (
+  amount: number,
+  { minPrice, maxPrice }: { minPrice?: number; maxPrice?: number }
+): { amount: number; cap?: PriceCap } => {
+  if (minPrice !== undefined && amount < minPrice) return { amount: minPrice, cap: 'minimum' };
+  if (maxPrice !== undefined && amount > maxPrice) return { amount: maxPrice, cap: 'maximum' };
+  return { amount };
+};
+
+/**
+ * What a field contributes to formulas that reference it: the number entered,
+ * the character count of text, the price of the chosen option, 1 for a
+ * checked box or chosen date, and the count of picked options or files.
+ */
+const getFormulaValue = (field: SpecialField, value: CustomerValue | undefined): number => {
+  switch (field.type) {
+    case 'number':
+      return typeof value === 'number' ? value : 0;
+    case 'text':
+      return typeof value === 'string' ? countCharacters(field, value) : 0;
+    case 'dropdown':
+      return field.dropdownOptions?.find((option) => option.id === value)?.price ?? 0;
+    case 'checkbox':
+      return value === true ? 1 : 0;
+    case 'date':
+      return parseDateValue(value) ? 1 : 0;
+    default:
+      return Array.isArray(value) ? value.length : 0;
+  }
+};
+
+/** Formula prices are never negative; an unparseable formula charges nothing. */
+const priceFormula = (formula: string, scope: FormulaScope): number => {
+  try {
+    return Math.max(0, evaluateFormula(parseFormula(formula), scope));
+  } catch {
+    return 0;
+  }
+};
+
+const priceField = (
+  field: SpecialField,
+  value: CustomerValue | undefined,
+  today: Date,
+  formulaScope: FormulaScope
+): PriceLine => {
+  const line: PriceLine = {
+    fieldId: field.id,
+    label: field.label,
+    field,
+    quantity: 0,
+    unitPrice: field.price,
+    amount: 0,
+  };
+
+  if (field.pricingModel === 'formula' && (field.type === 'text' || field.type === 'number')) {
+    line.formulaResult = priceFormula(field.formula ?? '', formulaScope);
+    line.quantity = line.formulaResult > 0 ? 1 : 0;
+    line.unitPrice = line.formulaResult;
+  } else if (field.type === 'text' && value && typeof value === 'string') {
+    if (field.pricingModel === 'perCharacter') {
+      line.quantity = countCharacters(field, value);
+    } else if (field.pricingModel === 'perWord') {
+      line.quantity = countWords(value);
+    } else if (field.pricingModel === 'perLine') {
+      line.quantity = countLines(value);
+    } else if (field.pricingModel === 'base') {
+      line.quantity = 1;
+    }
+  } else if (field.type === 'number' && typeof value === 'number' && value > 0) {
+    // Negative quantities are rejected by validation and never priced as credits.
+    if (field.pricingModel === 'perUnit') {
+      line.quantity = value;
+    } else if (field.pricingModel === 'base') {
+      line.quantity = 1;
+    } else if (field.pricingModel === 'tiered' && field.priceTiers?.length) {
+      line.quantity = value;
+      line.tier = findTier(field.priceTiers, value);
+      line.unitPrice = line.tier.unitPrice;
+    } else if (field.pricingModel === 'graduated' && field.priceTiers?.length) {
+      line.quantity = value;
+      line.tierPortions = splitIntoTiers(field.priceTiers, value);
+      line.amount = line.tierPortions.reduce(
+        (total, portion) => total + portion.quantity * portion.tier.unitPrice,
+        0
+      );
+      return line;
+    }
+  } else if (field.type === 'dropdown' && value) {
+    const option = field.dropdownOptions?.find((opt) => opt.id === value);
+    if (option) {
+      line.option = option;
+      line.quantity = 1;
+      line.unitPrice = option.price;
+    }
+  } else if (field.type === 'checkbox' && value === true) {
+    line.quantity = 1;
+  } else if (field.type === 'file' && Array.isArray(value) && value.length > 0) {
+    line.quantity = 1;
+  } else if (field.type === 'date' && parseDateValue(value)) {
+    line.quantity = 1;
+    if (isRushDate(field, parseDateValue(value), today)) line.rushSurcharge = field.rushSurcharge;
+  } else if (field.type === 'multiselect' && Array.isArray(value)) {
+    const selected = value as string[];
+    line.options = field.dropdownOptions?.filter((opt) => selected.includes(opt.id)) ?? [];
+    line.quantity = line.options.length;
+    line.amount = line.options.reduce((total, opt) => total + opt.price, 0);
+    return line;
+  }
+
+  if (
+    (field.pricingModel === 'perCharacter' || field.pricingModel === 'perUnit') &&
+    field.includedQuantity > 0 &&
+    line.quantity > 0
+  ) {
+    line.includedQuantity = Math.min(line.quantity, field.includedQuantity);
+  }
+
+  line.amount =
+    (line.quantity - (line.includedQuantity ?? 0)) * line.unitPrice + (line.rushSurcharge ?? 0);
+  return line;
+};
+
+/**
+ * Prices a product configuration for the given customer input. Special fields
+ * only contribute while `specialFieldsEnabled` is set and their visibility
+ * rules hold, matching what the customer is actually shown. `today` anchors
+ * date-based surcharges.
+ */
+export const calculatePriceBreakdown = (
+  product: ProductData,
+  customerValues: CustomerValues,
+  today: Date = new Date()
+): PriceBreakdown => {
+  const visibleFields = getVisibleFields(product, customerValues);
+  // Formulas see the fields the customer is shown; anything else counts as 0.
+  const formulaScope: FormulaScope = {
+    basePrice: product.basePrice,
+    field: (label) => {
+      const field = visibleFields.find(
+        (other) => other.label.trim().toLowerCase() === label.trim().toLowerCase()
+      );
+      return field ? getFormulaValue(field, customerValues[field.id]) : 0;
+    },
+  };
+  const lines = visibleFields.map((field) => {
+    const line = priceField(field, customerValues[field.id], today, formulaScope);
+    // Field bounds only apply once the field charges something.
+    const { amount, cap } = applyPriceCaps(line.amount, line.amount > 0 ? field : {});
+    return cap ? { ...line, amount, cap, uncappedAmount: line.amount } : line;
+  });
+
+  const uncappedSubtotal = lines.reduce((total, line) => total + line.amount, product.basePrice);
+  const { amount: subtotal, cap } = applyPriceCaps(uncappedSubtotal, product);
+  return cap
+    ? { basePrice: product.basePrice, lines, subtotal, cap, uncappedSubtotal }
+    : { basePrice: product.basePrice, lines, subtotal };
+};
+
+export const calculateTotalPrice = (
+  product: ProductData,
+  customerValues: CustomerValues,
+  today: Date = new Date()
+): number => calculatePriceBreakdown(product, customerValues, today).subtotal;
+
+export const formatCurrency = (amount: number): string => `$${amount.toFixed(2)}`;
+
+/** E.g. "12 chars × $0.50 = $6.00" or "12 chars − 10 free = 2 × $0.50 = $1.00". */
+const describeUnitPrice = (line: PriceLine, unit: string, units: string): string => {
+  const counted = `${line.quantity} ${line.quantity === 1 ? unit : units}`;
+  if (line.includedQuantity === line.quantity) return `${counted} included free`;
+  const billable = line.includedQuantity
+    ? `${counted} − ${line.includedQuantity} free = ${line.quantity - line.includedQuantity}`
+    : counted;
+  return `${billable} × ${formatCurrency(line.unitPrice)} = ${formatCurrency(line.amount)}`;
+};
+
+/**
+ * Human-readable explanation of how a line was priced, e.g.
+ * "12 chars × $0.50 = $6.00", "Large +$4.00" or, when a bound applied,
+ * "3 chars × $0.50 = $1.50 → $5.00 minimum".
+ */
+export const describePriceLine = (line: PriceLine): string => {
+  if (line.cap) {
+    const uncapped = describePriceLine({ ...line, cap: undefined, amount: line.uncappedAmount });
+    return `${uncapped} → ${formatCurrency(line.amount)} ${line.cap}`;
+  }
+  if (line.quantity === 0) return 'Not selected';
+
+  if (line.option) {
+    return `${line.option.name || 'Unnamed Option'} +${formatCurrency(line.amount)}`;
+  }
+  if (line.options) {
+    const names = line.options.map((opt) => opt.name || 'Unnamed Option').join(', ');
+    return `${names} +${formatCurrency(line.amount)}`;
+  }
+
+  if (line.rushSurcharge) {
+    return `${formatCurrency(line.unitPrice)} + ${formatCurrency(
+      line.rushSurcharge
+    )} rush = ${formatCurrency(line.amount)}`;
+  }
+
+  if (line.field.type === 'checkbox') return `Checked +${formatCurrency(line.amount)}`;
+
+  if (line.formulaResult !== undefined) {
+    return `${line.field.formula.trim()} = ${formatCurrency(line.amount)}`;
+  }
+
+  const tiers = line.field.priceTiers ?? [];
+  if (line.tier) {
+    return `${line.quantity} ${line.quantity === 1 ? 'unit' : 'units'} × ${formatCurrency(
+      line.unitPrice
+    )} (${describeTierRange(tiers, line.tier)} tier) = ${formatCurrency(line.amount)}`;
+  }
+  if (line.tierPortions) {
+    const portions = line.tierPortions.map(
+      (portion) =>
+        `${portion.quantity} × ${formatCurrency(portion.tier.unitPrice)} (${describeTierRange(
+          tiers,
+          portion.tier
+        )})`
+    );
+    return `${portions.join(' + ')} = ${formatCurrency(line.amount)}`;
+  }
+
+  switch (line.field.pricingModel) {
+    case 'perCharacter':
+      return describeUnitPrice(line, 'char', 'chars');
+    case 'perWord':
+      return describeUnitPrice(line, 'word', 'words');
+    case 'perLine':
+      return describeUnitPrice(line, 'line', 'lines');
+    case 'perUnit':
+      return describeUnitPrice(line, 'unit', 'units');
+    default:
+      return `Fixed +${formatCurrency(line.amount)}`;
+  }
+};
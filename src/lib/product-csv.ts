@@ -0,0 +1,454 @@
+import { parseCsv } from '@/lib/csv';
+import { WEEKDAY_LABELS } from '@/lib/date-field';
+import {
+  hasOptions,
+  type DropdownDisplayMode,
+  type DropdownOption,
+  type FieldType,
+  type PriceTier,
+  type PricingModel,
+  type ProductData,
+  type SpecialField,
+} from '@/lib/product';
+import {
+  dropdownDisplayModeSchema,
+  fieldTypeSchema,
+  pricingModelSchema,
+  validateProduct,
+  type ProductValidationOptions,
+} from '@/lib/product-schema';
+import { generateId } from '@/lib/utils';
+
+/**
+ * Bulk import of products from two CSV files. The products file has one row
+ * per product; the optional fields file has one row per special field, plus
+ * one extra row per additional dropdown option, linked to its product by key.
+ */
+
+export interface CsvColumn {
+  key: string;
+  label: string;
+  required?: boolean;
+  description: string;
+}
+
+export const PRODUCT_CSV_COLUMNS: CsvColumn[] = [
+  {
+    key: 'productKey',
+    label: 'Product key',
+    description: 'Links rows in the fields file to this product. Defaults to the name.',
+  },
+  { key: 'name', label: 'Name', required: true, description: 'Product name.' },
+  { key: 'description', label: 'Description', description: 'Product description.' },
+  { key: 'basePrice', label: 'Base price', required: true, description: 'Price before add-ons.' },
+  { key: 'minPrice', label: 'Minimum order price', description: 'Lowest total charged.' },
+  { key: 'maxPrice', label: 'Maximum order price', description: 'Highest total charged.' },
+  {
+    key: 'specialFieldsEnabled',
+    label: 'Special fields enabled',
+    description: 'yes or no. Defaults to yes when the fields file has rows for the product.',
+  },
+];
+
+export const FIELD_CSV_COLUMNS: CsvColumn[] = [
+  {
+    key: 'productKey',
+    label: 'Product key',
+    required: true,
+    description: 'Key (or name) of the product in the products file.',
+  },
+  {
+    key: 'label',
+    label: 'Field label',
+    required: true,
+    description: 'Rows with the same label add options to one field.',
+  },
+  {
+    key: 'type',
+    label: 'Type',
+    description: `${fieldTypeSchema.options.join(', ')}. Defaults to text.`,
+  },
+  {
+    key: 'pricingModel',
+    label: 'Pricing model',
+    description: `${pricingModelSchema.options.join(', ')}. Defaults to base.`,
+  },
+  { key: 'price', label: 'Price', description: 'Field price. Defaults to 0.' },
+  {
+    key: 'includedQuantity',
+    label: 'Included for free',
+    description: 'perCharacter and perUnit fields; characters or units not charged.',
+  },
+  { key: 'required', label: 'Required', description: 'yes or no.' },
+  { key: 'minLength', label: 'Minimum length', description: 'Text fields only.' },
+  { key: 'maxLength', label: 'Maximum length', description: 'Text fields only.' },
+  {
+    key: 'excludeWhitespace',
+    label: 'Exclude whitespace',
+    description: 'Per-character text fields only; yes to not charge for spaces.',
+  },
+  { key: 'multiline', label: 'Multiple lines', description: 'Text fields only; yes or no.' },
+  { key: 'minValue', label: 'Minimum value', description: 'Number fields only.' },
+  { key: 'maxValue', label: 'Maximum value', description: 'Number fields only.' },
+  { key: 'allowDecimal', label: 'Allow decimals', description: 'Number fields only; yes or no.' },
+  {
+    key: 'priceTiers',
+    label: 'Price tiers',
+    description: 'Tiered and graduated number fields; e.g. "1:2.00; 10:1.50; 50:1".',
+  },
+  {
+    key: 'formula',
+    label: 'Pricing formula',
+    description: 'Formula text and number fields; e.g. "{Width} * {Height} * 0.05".',
+  },
+  {
+    key: 'minSelections',
+    label: 'Minimum selections',
+    description: 'Multi-select fields only.',
+  },
+  {
+    key: 'maxSelections',
+    label: 'Maximum selections',
+    description: 'Multi-select fields only.',
+  },
+  {
+    key: 'optionName',
+    label: 'Option name',
+    description: 'Dropdown and multi-select fields only.',
+  },
+  {
+    key: 'optionPrice',
+    label: 'Option price',
+    description: 'Dropdown and multi-select fields only.',
+  },
+  {
+    key: 'displayMode',
+    label: 'Display mode',
+    description: `${dropdownDisplayModeSchema.options.join(', ')}. Dropdown fields only.`,
+  },
+  {
+    key: 'optionSwatchColor',
+    label: 'Option swatch color',
+    description: 'Hex color such as #1e40af, for swatches.',
+  },
+  {
+    key: 'optionSwatchImageUrl',
+    label: 'Option swatch image URL',
+    description: 'Image shown instead of the color, for swatches.',
+  },
+  { key: 'earliestDate', label: 'Earliest date', description: 'Date fields only; YYYY-MM-DD.' },
+  { key: 'latestDate', label: 'Latest date', description: 'Date fields only; YYYY-MM-DD.' },
+  {
+    key: 'blockedWeekdays',
+    label: 'Blocked weekdays',
+    description: 'Date fields only; e.g. "Sat; Sun".',
+  },
+  {
+    key: 'rushDays',
+    label: 'Rush window (days)',
+    description: 'Date fields only; dates this close get the rush surcharge.',
+  },
+  { key: 'rushSurcharge', label: 'Rush surcharge', description: 'Date fields only.' },
+  {
+    key: 'allowedMimeTypes',
+    label: 'Accepted file types',
+    description: 'File fields only; e.g. "image/png; image/*". Any type when empty.',
+  },
+  {
+    key: 'maxFileSizeMb',
+    label: 'Maximum file size (MB)',
+    description: 'File fields only.',
+  },
+  { key: 'maxFiles', label: 'Maximum files', description: 'File fields only.' },
+  {
+    key: 'minPrice',
+    label: 'Minimum charge',
+    description: 'Lowest amount the field adds whenever it charges anything.',
+  },
+  { key: 'maxPrice', label: 'Maximum charge', description: 'Highest amount the field adds.' },
+];
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/** Column key → index of the CSV header it is read from; unmapped columns are absent. */
+export type CsvColumnMapping = Record<string, number | undefined>;
+
+export const readCsvTable = (text: string): CsvTable => {
+  const [headers = [], ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  return { headers: headers.map((header) => header.trim()), rows };
+};
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Maps every column whose key or label matches a header, ignoring case and punctuation. */
+export const autoMapColumns = (headers: string[], columns: CsvColumn[]): CsvColumnMapping => {
+  const mapping: CsvColumnMapping = {};
+  for (const column of columns) {
+    const names = [normalizeHeader(column.key), normalizeHeader(column.label)];
+    const index = headers.findIndex((header) => names.includes(normalizeHeader(header)));
+    if (index !== -1) mapping[column.key] = index;
+  }
+  return mapping;
+};
+
+export const missingRequiredColumns = (mapping: CsvColumnMapping, columns: CsvColumn[]) =>
+  columns.filter((column) => column.required && mapping[column.key] === undefined);
+
+export interface CsvImportRow {
+  /** Line number in the products file, counting the header as line 1. */
+  line: number;
+  product: ProductData;
+  errors: string[];
+}
+
+export interface CsvImportPreview {
+  rows: CsvImportRow[];
+  /** Problems in the fields file that cannot be attributed to a product row. */
+  errors: string[];
+}
+
+/** Reads mapped cells from one CSV row, collecting a message for every unparseable value. */
+const createCellReader = (row: string[], mapping: CsvColumnMapping, columns: CsvColumn[]) => {
+  const errors: string[] = [];
+  const labelOf = (key: string) => columns.find((column) => column.key === key)?.label ?? key;
+
+  const text = (key: string) => {
+    const index = mapping[key];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+
+  const number = (key: string): number | undefined => {
+    const value = text(key);
+    if (!value) return undefined;
+    const parsed = Number(value.replace(/^\$/, ''));
+    if (Number.isNaN(parsed)) {
+      errors.push(`${labelOf(key)}: "${value}" is not a number.`);
+      return undefined;
+    }
+    return parsed;
+  };
+
+  const boolean = (key: string): boolean | undefined => {
+    const value = text(key).toLowerCase();
+    if (!value) return undefined;
+    if (['yes', 'y', 'true', '1'].includes(value)) return true;
+    if (['no', 'n', 'false', '0'].includes(value)) return false;
+    errors.push(`${labelOf(key)}: "${text(key)}" must be yes or no.`);
+    return undefined;
+  };
+
+  /** Weekday names or numbers (0 = Sunday), separated by commas, semicolons or spaces. */
+  const weekdays = (key: string): number[] | undefined => {
+    const value = text(key);
+    if (!value) return undefined;
+    const days: number[] = [];
+    for (const part of value.split(/[;,\s]+/).filter(Boolean)) {
+      const day = /^\d$/.test(part)
+        ? Number(part)
+        : WEEKDAY_LABELS.findIndex((label) => part.toLowerCase().startsWith(label.toLowerCase()));
+      if (day < 0 || day > 6) {
+        errors.push(`${labelOf(key)}: "${part}" is not a day of the week.`);
+      } else if (!days.includes(day)) {
+        days.push(day);
+      }
+    }
+    return days.sort((a, b) => a - b);
+  };
+
+  /** `minQuantity:unitPrice` pairs separated by semicolons or commas. */
+  const tiers = (key: string): PriceTier[] | undefined => {
+    const value = text(key);
+    if (!value) return undefined;
+    const parsed: PriceTier[] = [];
+    for (const part of value.split(/[;,]/).map((entry) => entry.trim()).filter(Boolean)) {
+      const match = part.match(/^(\d+(?:\.\d+)?)\s*:\s*\$?(\d+(?:\.\d+)?)$/);
+      if (match) {
+        parsed.push({
+          id: generateId(),
+          minQuantity: Number(match[1]),
+          unitPrice: Number(match[2]),
+        });
+      } else {
+        errors.push(`${labelOf(key)}: "${part}" must look like 10:1.50.`);
+      }
+    }
+    return parsed;
+  };
+
+  const oneOf = <T extends string>(key: string, options: readonly T[], fallback: T): T => {
+    const value = text(key);
+    if (!value) return fallback;
+    const match = options.find((option) => option.toLowerCase() === value.toLowerCase());
+    if (!match) errors.push(`${labelOf(key)}: "${value}" must be one of ${options.join(', ')}.`);
+    return match ?? fallback;
+  };
+
+  return { errors, text, number, boolean, weekdays, tiers, oneOf };
+};
+
+const readField = (cells: ReturnType<typeof createCellReader>): SpecialField => {
+  const type = cells.oneOf<FieldType>('type', fieldTypeSchema.options, 'text');
+  const field: SpecialField = {
+    id: generateId(),
+    label: cells.text('label'),
+    type,
+    pricingModel: cells.oneOf<PricingModel>('pricingModel', pricingModelSchema.options, 'base'),
+    price: cells.number('price') ?? 0,
+    required: cells.boolean('required'),
+    minPrice: cells.number('minPrice'),
+    maxPrice: cells.number('maxPrice'),
+  };
+
+  if (field.pricingModel === 'formula') field.formula = cells.text('formula') || undefined;
+  if (field.pricingModel === 'perCharacter' || field.pricingModel === 'perUnit') {
+    field.includedQuantity = cells.number('includedQuantity');
+  }
+  if (type === 'text') {
+    field.minLength = cells.number('minLength');
+    field.maxLength = cells.number('maxLength');
+    field.excludeWhitespace = cells.boolean('excludeWhitespace');
+    field.multiline = cells.boolean('multiline');
+  } else if (type === 'number') {
+    field.minValue = cells.number('minValue');
+    field.maxValue = cells.number('maxValue');
+    field.allowDecimal = cells.boolean('allowDecimal');
+    field.priceTiers = cells.tiers('priceTiers');
+  } else if (type === 'file') {
+    const mimeTypes = cells.text('allowedMimeTypes').split(/[;,\s]+/).filter(Boolean);
+    if (mimeTypes.length > 0) field.allowedMimeTypes = mimeTypes;
+    field.maxFileSizeMb = cells.number('maxFileSizeMb');
+    field.maxFiles = cells.number('maxFiles');
+  } else if (type === 'date') {
+    field.earliestDate = cells.text('earliestDate') || undefined;
+    field.latestDate = cells.text('latestDate') || undefined;
+    field.blockedWeekdays = cells.weekdays('blockedWeekdays');
+    field.rushDays = cells.number('rushDays');
+    field.rushSurcharge = cells.number('rushSurcharge');
+  } else if (hasOptions(type)) {
+    field.dropdownOptions = [];
+    if (type === 'multiselect') {
+      field.minSelections = cells.number('minSelections');
+      field.maxSelections = cells.number('maxSelections');
+    } else if (cells.text('displayMode')) {
+      field.displayMode = cells.oneOf<DropdownDisplayMode>(
+        'displayMode',
+        dropdownDisplayModeSchema.options,
+        'select'
+      );
+    }
+  }
+
+  // Drop unset optional properties so imported products match ones built in the editor.
+  for (const key of Object.keys(field) as (keyof SpecialField)[]) {
+    if (field[key] === undefined) delete field[key];
+  }
+  return field;
+};
+
+/** Turns a validation path into wording that points at the CSV rows, e.g. `Field "Size": …`. */
+const describeIssue = (product: ProductData, path: string, message: string) => {
+  const match = path.match(/^specialFields\.(\d+)/);
+  if (!match) return message;
+  const index = Number(match[1]);
+  return `Field "${product.specialFields[index]?.label || index + 1}": ${message}`;
+};
+
+/**
+ * Builds the products described by the CSV files without saving anything, and
+ * validates each one with the same rules as the editor.
+ */
+export const buildCsvImportPreview = (
+  products: CsvTable,
+  productMapping: CsvColumnMapping,
+  fields: CsvTable | undefined,
+  fieldMapping: CsvColumnMapping,
+  options: ProductValidationOptions = {}
+): CsvImportPreview => {
+  const rows: CsvImportRow[] = [];
+  const rowsByKey = new Map<string, CsvImportRow>();
+  const explicitlyEnabled = new Set<CsvImportRow>();
+
+  products.rows.forEach((row, index) => {
+    const cells = createCellReader(row, productMapping, PRODUCT_CSV_COLUMNS);
+    const enabled = cells.boolean('specialFieldsEnabled');
+    const importRow: CsvImportRow = {
+      line: index + 2,
+      product: {
+        name: cells.text('name'),
+        description: cells.text('description'),
+        basePrice: cells.number('basePrice') ?? 0,
+        specialFieldsEnabled: enabled ?? false,
+        specialFields: [],
+      },
+      errors: cells.errors,
+    };
+    const minPrice = cells.number('minPrice');
+    const maxPrice = cells.number('maxPrice');
+    if (minPrice !== undefined) importRow.product.minPrice = minPrice;
+    if (maxPrice !== undefined) importRow.product.maxPrice = maxPrice;
+    rows.push(importRow);
+    if (enabled !== undefined) explicitlyEnabled.add(importRow);
+
+    const key = (cells.text('productKey') || importRow.product.name).toLowerCase();
+    if (!key) return;
+    if (rowsByKey.has(key)) {
+      importRow.errors.push(
+        `Product key "${key}" is already used on line ${rowsByKey.get(key).line}.`
+      );
+    } else {
+      rowsByKey.set(key, importRow);
+    }
+  });
+
+  const errors: string[] = [];
+  fields?.rows.forEach((row, index) => {
+    const line = index + 2;
+    const cells = createCellReader(row, fieldMapping, FIELD_CSV_COLUMNS);
+    const productKey = cells.text('productKey');
+    const target = rowsByKey.get(productKey.toLowerCase());
+    if (!target) {
+      errors.push(`Fields line ${line}: no product with key "${productKey}".`);
+      return;
+    }
+
+    const { product } = target;
+    const label = cells.text('label');
+    let field = label
+      ? product.specialFields.find((existing) => existing.label === label)
+      : undefined;
+    if (!field) {
+      field = readField(cells);
+      product.specialFields.push(field);
+      if (!explicitlyEnabled.has(target)) product.specialFieldsEnabled = true;
+    }
+
+    const optionName = cells.text('optionName');
+    const optionPrice = cells.number('optionPrice');
+    if (optionName || optionPrice !== undefined) {
+      if (hasOptions(field.type)) {
+        const option: DropdownOption = { id: generateId(), name: optionName, price: optionPrice ?? 0 };
+        if (cells.text('optionSwatchColor')) option.swatchColor = cells.text('optionSwatchColor');
+        if (cells.text('optionSwatchImageUrl')) {
+          option.swatchImageUrl = cells.text('optionSwatchImageUrl');
+        }
+        field.dropdownOptions.push(option);
+      } else {
+        cells.errors.push('Options are only allowed on dropdown and multi-select fields.');
+      }
+    }
+
+    target.errors.push(...cells.errors.map((error) => `Fields line ${line}: ${error}`));
+  });
+
+  for (const row of rows) {
+    const issues = validateProduct(row.product, options);
+    for (const [path, message] of Object.entries(issues)) {
+      row.errors.push(describeIssue(row.product, path, message));
+    }
+  }
+
+  return { rows, errors };
+};
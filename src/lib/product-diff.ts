@@ -0,0 +1,273 @@
+import { WEEKDAY_LABELS } from '@/lib/date-field';
+import { describeTierRange } from '@/lib/price-tiers';
+import { formatCurrency } from '@/lib/pricing';
+import type {
+  DropdownOption,
+  PriceTier,
+  ProductData,
+  SpecialField,
+  VisibilityRule,
+} from '@/lib/product';
+
+type ProductProperty =
+  | 'name'
+  | 'description'
+  | 'basePrice'
+  | 'minPrice'
+  | 'maxPrice'
+  | 'specialFieldsEnabled';
+type FieldProperty = Exclude<keyof SpecialField, 'id' | 'dropdownOptions'>;
+type OptionProperty = Exclude<keyof DropdownOption, 'id'>;
+
+export type ProductChange =
+  | { kind: 'productChanged'; property: ProductProperty; before: unknown; after: unknown }
+  | { kind: 'fieldAdded'; field: SpecialField }
+  | { kind: 'fieldRemoved'; field: SpecialField }
+  | { kind: 'fieldsReordered' }
+  | {
+      kind: 'fieldChanged';
+      field: SpecialField;
+      property: FieldProperty;
+      before: unknown;
+      after: unknown;
+    }
+  | { kind: 'optionAdded'; field: SpecialField; option: DropdownOption }
+  | { kind: 'optionRemoved'; field: SpecialField; option: DropdownOption }
+  | {
+      kind: 'optionChanged';
+      field: SpecialField;
+      option: DropdownOption;
+      property: OptionProperty;
+      before: unknown;
+      after: unknown;
+    }
+  | { kind: 'optionsReordered'; field: SpecialField };
+
+const OPTION_PROPERTIES: OptionProperty[] = ['name', 'price', 'swatchColor', 'swatchImageUrl'];
+
+const PRODUCT_PROPERTIES: ProductProperty[] = [
+  'name',
+  'description',
+  'basePrice',
+  'minPrice',
+  'maxPrice',
+  'specialFieldsEnabled',
+];
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/** Whether the items both lists share appear in a different relative order. */
+const isReordered = <T extends { id: string }>(before: T[], after: T[]) => {
+  const afterIds = new Set(after.map((item) => item.id));
+  const beforeIds = new Set(before.map((item) => item.id));
+  const kept = before.filter((item) => afterIds.has(item.id)).map((item) => item.id);
+  const keptAfter = after.filter((item) => beforeIds.has(item.id)).map((item) => item.id);
+  return !isEqual(kept, keptAfter);
+};
+
+const diffOptions = (
+  field: SpecialField,
+  before: DropdownOption[] = [],
+  after: DropdownOption[] = []
+): ProductChange[] => {
+  const changes: ProductChange[] = [];
+  const beforeById = new Map(before.map((option) => [option.id, option]));
+  const afterIds = new Set(after.map((option) => option.id));
+
+  for (const option of before) {
+    if (!afterIds.has(option.id)) changes.push({ kind: 'optionRemoved', field, option });
+  }
+  for (const option of after) {
+    const previous = beforeById.get(option.id);
+    if (!previous) {
+      changes.push({ kind: 'optionAdded', field, option });
+      continue;
+    }
+    for (const property of OPTION_PROPERTIES) {
+      if (previous[property] !== option[property]) {
+        changes.push({
+          kind: 'optionChanged',
+          field,
+          option,
+          property,
+          before: previous[property],
+          after: option[property],
+        });
+      }
+    }
+  }
+  if (isReordered(before, after)) changes.push({ kind: 'optionsReordered', field });
+  return changes;
+};
+
+const diffField = (before: SpecialField, after: SpecialField): ProductChange[] => {
+  const changes: ProductChange[] = [];
+  const properties = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<
+    keyof SpecialField
+  >;
+
+  for (const property of properties) {
+    if (property === 'id' || property === 'dropdownOptions') continue;
+    if (!isEqual(before[property], after[property])) {
+      changes.push({
+        kind: 'fieldChanged',
+        field: after,
+        property,
+        before: before[property],
+        after: after[property],
+      });
+    }
+  }
+  return [...changes, ...diffOptions(after, before.dropdownOptions, after.dropdownOptions)];
+};
+
+/**
+ * Structural diff between two product configurations. Special fields and
+ * dropdown options are matched by id, so renames show up as changes rather
+ * than as a removal plus an addition.
+ */
+export const diffProducts = (before: ProductData, after: ProductData): ProductChange[] => {
+  const changes: ProductChange[] = [];
+
+  for (const property of PRODUCT_PROPERTIES) {
+    if (!isEqual(before[property], after[property])) {
+      changes.push({
+        kind: 'productChanged',
+        property,
+        before: before[property],
+        after: after[property],
+      });
+    }
+  }
+
+  const beforeById = new Map(before.specialFields.map((field) => [field.id, field]));
+  const afterIds = new Set(after.specialFields.map((field) => field.id));
+
+  for (const field of before.specialFields) {
+    if (!afterIds.has(field.id)) changes.push({ kind: 'fieldRemoved', field });
+  }
+  for (const field of after.specialFields) {
+    const previous = beforeById.get(field.id);
+    changes.push(...(previous ? diffField(previous, field) : [{ kind: 'fieldAdded', field } as const]));
+  }
+  if (isReordered(before.specialFields, after.specialFields)) {
+    changes.push({ kind: 'fieldsReordered' });
+  }
+
+  return changes;
+};
+
+const PROPERTY_LABELS: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  basePrice: 'Base price',
+  specialFieldsEnabled: 'Special fields enabled',
+  label: 'Label',
+  type: 'Type',
+  pricingModel: 'Pricing model',
+  price: 'Price',
+  includedQuantity: 'Included for free',
+  required: 'Required',
+  minLength: 'Minimum length',
+  maxLength: 'Maximum length',
+  excludeWhitespace: 'Exclude whitespace',
+  multiline: 'Multiple lines',
+  minValue: 'Minimum value',
+  maxValue: 'Maximum value',
+  allowDecimal: 'Allow decimals',
+  priceTiers: 'Price tiers',
+  formula: 'Pricing formula',
+  minSelections: 'Minimum selections',
+  maxSelections: 'Maximum selections',
+  displayMode: 'Display mode',
+  earliestDate: 'Earliest date',
+  latestDate: 'Latest date',
+  blockedWeekdays: 'Blocked weekdays',
+  rushDays: 'Rush window (days)',
+  rushSurcharge: 'Rush surcharge',
+  allowedMimeTypes: 'Accepted file types',
+  maxFileSizeMb: 'Maximum file size (MB)',
+  maxFiles: 'Maximum files',
+  minPrice: 'Minimum price',
+  maxPrice: 'Maximum price',
+  swatchColor: 'Swatch color',
+  swatchImageUrl: 'Swatch image',
+  visibleWhen: 'Visibility rule',
+};
+
+const CURRENCY_PROPERTIES = ['price', 'basePrice', 'rushSurcharge', 'minPrice', 'maxPrice'];
+
+const describeRuleCondition = (rule: VisibilityRule | undefined) => {
+  switch (rule?.operator) {
+    case 'equals':
+      return 'shown for one option';
+    case 'notEmpty':
+      return 'shown when filled in';
+    case 'greaterThan':
+      return `shown above ${rule.threshold ?? 0}`;
+    default:
+      return 'always shown';
+  }
+};
+
+const formatValue = (property: string, value: unknown): string => {
+  if (property === 'visibleWhen') return describeRuleCondition(value as VisibilityRule | undefined);
+  if (value === undefined || value === '') return 'none';
+  if (property === 'blockedWeekdays' && Array.isArray(value)) {
+    return value.length > 0 ? value.map((day: number) => WEEKDAY_LABELS[day]).join(', ') : 'none';
+  }
+  if (property === 'priceTiers' && Array.isArray(value)) {
+    const tiers = value as PriceTier[];
+    return tiers.length > 0
+      ? tiers
+          .map((tier) => `${describeTierRange(tiers, tier)} at ${formatCurrency(tier.unitPrice)}`)
+          .join(', ')
+      : 'none';
+  }
+  if (CURRENCY_PROPERTIES.includes(property) && typeof value === 'number') {
+    return formatCurrency(value);
+  }
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const describeValueChange = (property: string, before: unknown, after: unknown) =>
+  `${PROPERTY_LABELS[property] ?? property}: ${formatValue(property, before)} → ${formatValue(
+    property,
+    after
+  )}`;
+
+const fieldName = (field: SpecialField) => `"${field.label || 'Untitled'}"`;
+
+export const describeChange = (change: ProductChange): string => {
+  switch (change.kind) {
+    case 'productChanged':
+      return describeValueChange(change.property, change.before, change.after);
+    case 'fieldAdded':
+      return `Added field ${fieldName(change.field)}`;
+    case 'fieldRemoved':
+      return `Removed field ${fieldName(change.field)}`;
+    case 'fieldsReordered':
+      return 'Reordered special fields';
+    case 'fieldChanged':
+      return `${fieldName(change.field)} ${describeValueChange(
+        change.property,
+        change.before,
+        change.after
+      )}`;
+    case 'optionAdded':
+      return `${fieldName(change.field)} added option "${change.option.name}"`;
+    case 'optionRemoved':
+      return `${fieldName(change.field)} removed option "${change.option.name}"`;
+    case 'optionChanged':
+      return `${fieldName(change.field)} option "${change.option.name}" ${describeValueChange(
+        change.property,
+        change.before,
+        change.after
+      )}`;
+    case 'optionsReordered':
+      return `${fieldName(change.field)} reordered options`;
+  }
+};
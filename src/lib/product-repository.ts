@@ -0,0 +1,147 @@
+import type { ProductData } from '@/lib/product';
+import { generateId } from '@/lib/utils';
+
+export interface StoredProduct {
+  id: string;
+  product: ProductData;
+  /** Number of the latest version; matches `ProductVersion.version`. */
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Immutable snapshot recorded every time a product is saved. */
+export interface ProductVersion {
+  id: string;
+  productId: string;
+  version: number;
+  product: ProductData;
+  author: string;
+  createdAt: string;
+}
+
+/**
+ * Persistence boundary for the product catalog. Everything above this
+ * interface (hooks, pages) is storage-agnostic, so a REST-backed
+ * implementation can replace the local one without touching the UI.
+ */
+export interface ProductRepository {
+  list(): Promise<StoredProduct[]>;
+  get(id: string): Promise<StoredProduct | undefined>;
+  create(product: ProductData, author: string): Promise<StoredProduct>;
+  update(id: string, product: ProductData, author: string): Promise<StoredProduct>;
+  remove(id: string): Promise<void>;
+  /** Versions of a product, oldest first. */
+  listVersions(productId: string): Promise<ProductVersion[]>;
+}
+
+export class ProductNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Product "${id}" does not exist.`);
+    this.name = 'ProductNotFoundError';
+  }
+}
+
+type ProductRecords = Record<string, StoredProduct>;
+type VersionRecords = Record<string, ProductVersion[]>;
+
+export class LocalStorageProductRepository implements ProductRepository {
+  constructor(
+    private readonly storageKey = 'product-catalog',
+    private readonly storage: Storage = window.localStorage
+  ) {}
+
+  private get versionsKey() {
+    return `${this.storageKey}:versions`;
+  }
+
+  private readJson<T>(key: string): Record<string, T> {
+    const raw = this.storage.getItem(key);
+    if (!raw) return {};
+    try {
+      return JSON.parse(raw) as Record<string, T>;
+    } catch {
+      return {};
+    }
+  }
+
+  private read(): ProductRecords {
+    return this.readJson<StoredProduct>(this.storageKey);
+  }
+
+  private write(records: ProductRecords) {
+    this.storage.setItem(this.storageKey, JSON.stringify(records));
+  }
+
+  private appendVersion(stored: StoredProduct, author: string) {
+    const versions: VersionRecords = this.readJson<ProductVersion[]>(this.versionsKey);
+    const version: ProductVersion = {
+      id: generateId(),
+      productId: stored.id,
+      version: stored.version,
+      product: stored.product,
+      author,
+      createdAt: stored.updatedAt,
+    };
+    versions[stored.id] = [...(versions[stored.id] ?? []), version];
+    this.storage.setItem(this.versionsKey, JSON.stringify(versions));
+  }
+
+  async list(): Promise<StoredProduct[]> {
+    return Object.values(this.read());
+  }
+
+  async get(id: string): Promise<StoredProduct | undefined> {
+    return this.read()[id];
+  }
+
+  async create(product: ProductData, author: string): Promise<StoredProduct> {
+    const records = this.read();
+    const now = new Date().toISOString();
+    const stored: StoredProduct = {
+      id: generateId(),
+      product,
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+    records[stored.id] = stored;
+    this.write(records);
+    this.appendVersion(stored, author);
+    return stored;
+  }
+
+  async update(id: string, product: ProductData, author: string): Promise<StoredProduct> {
+    const records = this.read();
+    const existing = records[id];
+    if (!existing) throw new ProductNotFoundError(id);
+
+    const stored: StoredProduct = {
+      ...existing,
+      product,
+      // Products saved before versioning existed have no version number yet.
+      version: (existing.version ?? 0) + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    records[id] = stored;
+    this.write(records);
+    this.appendVersion(stored, author);
+    return stored;
+  }
+
+  async remove(id: string): Promise<void> {
+    const records = this.read();
+    delete records[id];
+    this.write(records);
+
+    const versions: VersionRecords = this.readJson<ProductVersion[]>(this.versionsKey);
+    delete versions[id];
+    this.storage.setItem(this.versionsKey, JSON.stringify(versions));
+  }
+
+  async listVersions(productId: string): Promise<ProductVersion[]> {
+    return this.readJson<ProductVersion[]>(this.versionsKey)[productId] ?? [];
+  }
+}
+
+export const productRepository: ProductRepository = new LocalStorageProductRepository();
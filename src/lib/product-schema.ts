@@ -0,0 +1,429 @@
+import { z } from 'zod';
+import { parseDateValue } from '@/lib/date-field';
+import { findVisibilityCycles, VISIBILITY_OPERATORS } from '@/lib/field-visibility';
+import { FormulaSyntaxError, getFormulaReferences, parseFormula } from '@/lib/formula';
+import { usesPriceTiers } from '@/lib/price-tiers';
+import {
+  hasOptions,
+  type FieldType,
+  type PricingModel,
+  type ProductData,
+  type SpecialField,
+} from '@/lib/product';
+
+/**
+ * Zod schemas for product configurations. They are free of React and browser
+ * APIs so the same rules can run on the server before a product is stored.
+ */
+
+const nonNegativePrice = (message: string) =>
+  z.number({ invalid_type_error: message }).min(0, message);
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/** Adds an issue at `[index, key]` for every entry whose name repeats an earlier one. */
+const refineUnique =
+  <T>(key: keyof T & string, getName: (item: T) => string, message: string) =>
+  (items: T[], ctx: z.RefinementCtx) => {
+    const seen = new Set<string>();
+    items.forEach((item, index) => {
+      const name = normalize(getName(item));
+      if (!name) return;
+      if (seen.has(name)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, key], message });
+      }
+      seen.add(name);
+    });
+  };
+
+export const fieldTypeSchema = z.enum([
+  'text',
+  'number',
+  'dropdown',
+  'checkbox',
+  'multiselect',
+  'date',
+  'file',
+]);
+export const pricingModelSchema = z.enum([
+  'base',
+  'perCharacter',
+  'perWord',
+  'perLine',
+  'perUnit',
+  'tiered',
+  'graduated',
+  'formula',
+]);
+
+export const dropdownDisplayModeSchema = z.enum(['select', 'radio', 'swatches']);
+
+export const dropdownOptionSchema = z.object({
+  id: z.string(),
+  name: z.string().trim().min(1, 'Option name is required.'),
+  price: nonNegativePrice('Option price must be greater than or equal to 0.'),
+  swatchColor: z
+    .string()
+    .regex(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i, 'Enter a hex color such as #1e40af.')
+    .optional(),
+  swatchImageUrl: z.string().url('Enter a valid image URL.').optional(),
+});
+
+export const priceTierSchema = z.object({
+  id: z.string(),
+  minQuantity: z
+    .number({ invalid_type_error: 'Enter the quantity this tier starts at.' })
+    .positive('Tier quantity must be greater than 0.'),
+  unitPrice: nonNegativePrice('Tier price must be greater than or equal to 0.'),
+});
+
+export const visibilityRuleSchema = z.object({
+  fieldId: z.string(),
+  operator: z.enum(['equals', 'notEmpty', 'greaterThan']),
+  optionId: z.string().optional(),
+  threshold: z.number().optional(),
+});
+
+/** Structure of a special field without content rules, used while special fields are disabled. */
+const specialFieldShape = z.object({
+  id: z.string(),
+  label: z.string(),
+  type: fieldTypeSchema,
+  pricingModel: pricingModelSchema,
+  price: z.number(),
+  includedQuantity: z.number().optional(),
+  required: z.boolean().optional(),
+  minLength: z.number().optional(),
+  maxLength: z.number().optional(),
+  excludeWhitespace: z.boolean().optional(),
+  multiline: z.boolean().optional(),
+  minValue: z.number().optional(),
+  maxValue: z.number().optional(),
+  allowDecimal: z.boolean().optional(),
+  priceTiers: z
+    .array(priceTierSchema.extend({ minQuantity: z.number(), unitPrice: z.number() }))
+    .optional(),
+  formula: z.string().optional(),
+  minSelections: z.number().optional(),
+  maxSelections: z.number().optional(),
+  dropdownOptions: z
+    .array(
+      dropdownOptionSchema.extend({
+        name: z.string(),
+        price: z.number(),
+        swatchColor: z.string().optional(),
+        swatchImageUrl: z.string().optional(),
+      })
+    )
+    .optional(),
+  displayMode: dropdownDisplayModeSchema.optional(),
+  earliestDate: z.string().optional(),
+  latestDate: z.string().optional(),
+  blockedWeekdays: z.array(z.number()).optional(),
+  rushDays: z.number().optional(),
+  rushSurcharge: z.number().optional(),
+  allowedMimeTypes: z.array(z.string()).optional(),
+  maxFileSizeMb: z.number().optional(),
+  maxFiles: z.number().optional(),
+  minPrice: z.number().optional(),
+  maxPrice: z.number().optional(),
+  visibleWhen: visibilityRuleSchema.optional(),
+});
+
+/** Syntax problem in a pricing formula, or undefined when it parses. */
+const getFormulaError = (formula: string | undefined): string | undefined => {
+  if (!formula?.trim()) return 'Enter a pricing formula.';
+  try {
+    parseFormula(formula);
+    return undefined;
+  } catch (error) {
+    if (error instanceof FormulaSyntaxError) return error.message;
+    throw error;
+  }
+};
+
+const priceCap = (label: string) =>
+  nonNegativePrice(`${label} must be greater than or equal to 0.`).optional();
+
+/** Adds an issue at `[...path, 'maxPrice']` when the price bounds are the wrong way round. */
+const refinePriceCaps = (
+  { minPrice, maxPrice }: { minPrice?: number; maxPrice?: number },
+  ctx: z.RefinementCtx,
+  path: (string | number)[] = []
+) => {
+  if (minPrice !== undefined && maxPrice !== undefined && maxPrice < minPrice) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [...path, 'maxPrice'],
+      message: 'Maximum price must be at least the minimum price.',
+    });
+  }
+};
+
+/** Pricing models each field type can be charged by. */
+const PRICING_MODELS_BY_TYPE: Record<FieldType, PricingModel[]> = {
+  text: ['base', 'perCharacter', 'perWord', 'perLine', 'formula'],
+  number: ['base', 'perUnit', 'tiered', 'graduated', 'formula'],
+  dropdown: ['base'],
+  checkbox: ['base'],
+  multiselect: ['base'],
+  date: ['base'],
+  file: ['base'],
+};
+
+const selectionCount = z
+  .number()
+  .int('Enter a whole number of selections.')
+  .min(0, 'Selections must be greater than or equal to 0.')
+  .optional();
+
+const dateString = z
+  .string()
+  .refine((value) => !!parseDateValue(value), 'Enter a date as YYYY-MM-DD.')
+  .optional();
+
+export const specialFieldSchema = specialFieldShape
+  .extend({
+    label: z.string().trim().min(1, 'Field label is required.'),
+    price: nonNegativePrice('Price must be greater than or equal to 0.'),
+    includedQuantity: z
+      .number({ invalid_type_error: 'Enter how many are included for free.' })
+      .min(0, 'Included quantity must be greater than or equal to 0.')
+      .optional(),
+    minSelections: selectionCount,
+    maxSelections: selectionCount,
+    earliestDate: dateString,
+    latestDate: dateString,
+    blockedWeekdays: z
+      .array(z.number().int().min(0).max(6))
+      .max(6, 'At least one day of the week must stay available.')
+      .optional(),
+    rushDays: z
+      .number()
+      .int('Enter a whole number of days.')
+      .min(0, 'Rush window must be greater than or equal to 0.')
+      .optional(),
+    rushSurcharge: nonNegativePrice('Rush surcharge must be greater than or equal to 0.').optional(),
+    allowedMimeTypes: z
+      .array(
+        z
+          .string()
+          .regex(/^[\w.+-]+\/([\w.+-]+|\*)$/, 'Enter MIME types such as image/png or image/*.')
+      )
+      .optional(),
+    maxFileSizeMb: z.number().positive('Maximum file size must be greater than 0.').optional(),
+    maxFiles: z
+      .number()
+      .int('Enter a whole number of files.')
+      .min(1, 'Allow at least 1 file.')
+      .optional(),
+    minPrice: priceCap('Minimum price'),
+    maxPrice: priceCap('Maximum price'),
+    priceTiers: z
+      .array(priceTierSchema)
+      .superRefine((tiers, ctx) => {
+        tiers.forEach((tier, index) => {
+          if (index > 0 && tier.minQuantity <= tiers[index - 1].minQuantity) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: [index, 'minQuantity'],
+              message: 'Each tier must start above the previous one.',
+            });
+          }
+        });
+      })
+      .optional(),
+    dropdownOptions: z
+      .array(dropdownOptionSchema)
+      .superRefine(
+        refineUnique('name', (option) => option.name, 'Option names must be unique within the field.')
+      )
+      .optional(),
+  })
+  .superRefine((field, ctx) => {
+    if (usesPriceTiers(field.pricingModel) && !field.priceTiers?.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['priceTiers'],
+        message: 'Add at least one price tier.',
+      });
+    }
+    if (!PRICING_MODELS_BY_TYPE[field.type].includes(field.pricingModel)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['pricingModel'],
+        message: `Fields of type ${field.type} cannot use ${field.pricingModel} pricing.`,
+      });
+    }
+    if (field.pricingModel === 'formula') {
+      const error = getFormulaError(field.formula);
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['formula'], message: error });
+    }
+    const earliest = parseDateValue(field.earliestDate);
+    const latest = parseDateValue(field.latestDate);
+    if (earliest && latest && latest < earliest) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['latestDate'],
+        message: 'Latest date must be on or after the earliest date.',
+      });
+    }
+    if (hasOptions(field.type) && !field.dropdownOptions?.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['dropdownOptions'],
+        message: 'Add at least one option.',
+      });
+    }
+    if (field.type === 'dropdown' && field.displayMode === 'swatches') {
+      field.dropdownOptions?.forEach((option, index) => {
+        if (!option.swatchColor && !option.swatchImageUrl) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['dropdownOptions', index, 'swatchColor'],
+            message: 'Give each swatch a color or an image.',
+          });
+        }
+      });
+    }
+    if (
+      field.minSelections !== undefined &&
+      field.maxSelections !== undefined &&
+      field.maxSelections < field.minSelections
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['maxSelections'],
+        message: 'Maximum selections must be at least the minimum.',
+      });
+    }
+    refinePriceCaps(field, ctx);
+  });
+
+/** Checks that every visibility rule points at another field with a matching condition. */
+const refineVisibilityRules = (fields: SpecialField[], ctx: z.RefinementCtx) => {
+  const cyclic = findVisibilityCycles(fields);
+  fields.forEach((field, index) => {
+    const rule = field.visibleWhen;
+    if (!rule) return;
+
+    const addIssue = (message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'visibleWhen'], message });
+    const controller = fields.find((other) => other.id === rule.fieldId && other !== field);
+    if (!controller) {
+      addIssue('Choose the field that controls when this one is shown.');
+    } else if (rule.operator !== VISIBILITY_OPERATORS[controller.type]) {
+      addIssue(`The condition does not apply to "${controller.label || 'Untitled'}".`);
+    } else if (
+      rule.operator === 'equals' &&
+      !controller.dropdownOptions?.some((option) => option.id === rule.optionId)
+    ) {
+      addIssue(`Choose one of the options of "${controller.label || 'Untitled'}".`);
+    } else if (rule.operator === 'greaterThan' && typeof rule.threshold !== 'number') {
+      addIssue('Enter the number the value must exceed.');
+    } else if (cyclic.has(field.id)) {
+      addIssue('Visibility rules cannot depend on each other in a loop.');
+    }
+  });
+};
+
+/** Checks that every `{Field}` a pricing formula refers to is a special field of the product. */
+const refineFormulaReferences = (fields: SpecialField[], ctx: z.RefinementCtx) => {
+  const labels = new Set(fields.map((field) => normalize(field.label)));
+  fields.forEach((field, index) => {
+    if (field.pricingModel !== 'formula' || getFormulaError(field.formula)) return;
+    const unknown = getFormulaReferences(parseFormula(field.formula)).find(
+      (label) => !labels.has(normalize(label))
+    );
+    if (unknown) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [index, 'formula'],
+        message: `There is no special field labeled "${unknown}".`,
+      });
+    }
+  });
+};
+
+const productShape = z.object({
+  name: z.string().trim().min(1, 'Product name is required.'),
+  description: z.string(),
+  basePrice: nonNegativePrice('Base price must be greater than or equal to 0.'),
+  minPrice: priceCap('Minimum order price'),
+  maxPrice: priceCap('Maximum order price'),
+});
+
+export const productSchema = z
+  .discriminatedUnion('specialFieldsEnabled', [
+    productShape.extend({
+      specialFieldsEnabled: z.literal(true),
+      specialFields: z
+        .array(specialFieldSchema)
+        .superRefine(
+          refineUnique('label', (field) => field.label, 'Special field labels must be unique.')
+        )
+        .superRefine(refineVisibilityRules)
+        .superRefine(refineFormulaReferences),
+    }),
+    productShape.extend({
+      specialFieldsEnabled: z.literal(false),
+      specialFields: z.array(specialFieldShape),
+    }),
+  ])
+  .superRefine((product, ctx) => refinePriceCaps(product, ctx));
+
+/** Error messages keyed by dotted path, e.g. `specialFields.0.dropdownOptions.1.name`. */
+export type ProductValidationErrors = Record<string, string>;
+
+export const toValidationErrors = (error: z.ZodError): ProductValidationErrors => {
+  const errors: ProductValidationErrors = {};
+  for (const issue of error.issues) {
+    const path = issue.path.join('.');
+    errors[path] ??= issue.message;
+  }
+  return errors;
+};
+
+export interface ProductValidationOptions {
+  /** Store-wide limit on special fields; unchecked when omitted. */
+  maxSpecialFields?: number;
+}
+
+export type ProductParseResult =
+  | { status: 'success'; product: ProductData }
+  | { status: 'error'; errors: ProductValidationErrors };
+
+/**
+ * Validates a product configuration, reporting every problem at once. On
+ * success the product is returned as parsed, without keys the schema does not know.
+ */
+export const parseProduct = (
+  product: unknown,
+  { maxSpecialFields }: ProductValidationOptions = {}
+): ProductParseResult => {
+  const schema =
+    maxSpecialFields === undefined
+      ? productSchema
+      : productSchema.superRefine((value, ctx) => {
+          if (value.specialFieldsEnabled && value.specialFields.length > maxSpecialFields) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: ['specialFields'],
+              message: `You can only add up to ${maxSpecialFields} special fields.`,
+            });
+          }
+        });
+  const result = schema.safeParse(product);
+  if (!result.success) return { status: 'error', errors: toValidationErrors(result.error) };
+  // Without strictNullChecks zod infers every key as optional, though parsing required them.
+  return { status: 'success', product: result.data as ProductData };
+};
+
+/** Validates a product configuration, reporting every problem at once. */
+export const validateProduct = (
+  product: unknown,
+  options?: ProductValidationOptions
+): ProductValidationErrors => {
+  const result = parseProduct(product, options);
+  return result.status === 'success' ? {} : result.errors;
+};
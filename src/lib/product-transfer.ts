@@ -0,0 +1,180 @@
+import type { ProductData } from '@/lib/product';
+import { parseProduct, type ProductValidationOptions } from '@/lib/product-schema';
+import { generateId } from '@/lib/utils';
+
+/**
+ * Version of the exported JSON format. Bump it whenever `ProductData` changes
+ * shape and register a migration from the previous version below.
+ */
+export const PRODUCT_SCHEMA_VERSION = 1;
+
+export interface ProductExport {
+  schemaVersion: number;
+  exportedAt: string;
+  product: ProductData;
+}
+
+type Migration = (document: Record<string, unknown>) => Record<string, unknown>;
+
+/** `migrations[n]` upgrades a version `n` document to version `n + 1`. */
+const migrations: Record<number, Migration> = {
+  // Version 0 is a bare `ProductData` object, as logged by the editor before export existed.
+  0: (document) => ({ schemaVersion: 1, exportedAt: new Date().toISOString(), product: document }),
+};
+
+export interface ProductImportSuccess {
+  status: 'success';
+  product: ProductData;
+  /** Number of special field and option ids replaced because they were missing or duplicated. */
+  regeneratedIds: number;
+  /** Schema version the file was migrated from, when it was older than the current one. */
+  migratedFrom?: number;
+}
+
+export type ProductImportResult = ProductImportSuccess | { status: 'error'; errors: string[] };
+
+export const serializeProduct = (product: ProductData): string => {
+  const document: ProductExport = {
+    schemaVersion: PRODUCT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    product,
+  };
+  return JSON.stringify(document, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Gives every special field and dropdown option that has no id, or an id
+ * already used earlier in the product, a fresh one. Field ids and option ids
+ * are checked separately. Visibility rules follow replaced ids where the
+ * intended target is unambiguous. Returns how many ids were replaced.
+ */
+const regenerateConflictingIds = (product: Record<string, unknown>): number => {
+  let regenerated = 0;
+  /** Returns the id the item had before, when it was replaced. */
+  const claim = (item: Record<string, unknown>, seen: Set<string>): string | undefined => {
+    const previous = typeof item.id === 'string' && item.id ? item.id : undefined;
+    if (!previous || seen.has(previous)) {
+      item.id = generateId();
+      regenerated++;
+    }
+    seen.add(item.id as string);
+    return previous !== item.id ? previous : undefined;
+  };
+
+  const fieldIds = new Set<string>();
+  const optionIds = new Set<string>();
+  const fields = (Array.isArray(product.specialFields) ? product.specialFields : []).filter(
+    isRecord
+  );
+  // Old id → new id of the first field or option that gave it up.
+  const replacedFieldIds = new Map<string, string>();
+  const replacedOptionIds = new Map<Record<string, unknown>, Map<string, string>>();
+
+  for (const field of fields) {
+    const previous = claim(field, fieldIds);
+    if (previous && !replacedFieldIds.has(previous)) {
+      replacedFieldIds.set(previous, field.id as string);
+    }
+
+    const options = (Array.isArray(field.dropdownOptions) ? field.dropdownOptions : []).filter(
+      isRecord
+    );
+    const replaced = new Map<string, string>();
+    for (const option of options) {
+      const previousOption = claim(option, optionIds);
+      if (previousOption && !replaced.has(previousOption)) {
+        replaced.set(previousOption, option.id as string);
+      }
+    }
+    // An option of this field that kept the old id is still what rules mean by it.
+    for (const previousOption of replaced.keys()) {
+      if (options.some((option) => option.id === previousOption)) replaced.delete(previousOption);
+    }
+    replacedOptionIds.set(field, replaced);
+  }
+
+  for (const field of fields) {
+    const rule = field.visibleWhen;
+    if (!isRecord(rule) || typeof rule.fieldId !== 'string') continue;
+    // A rule never depends on its own field, so a duplicate id it shares with its
+    // own field refers to the field that was given a new id.
+    if (rule.fieldId === field.id && replacedFieldIds.has(rule.fieldId)) {
+      rule.fieldId = replacedFieldIds.get(rule.fieldId);
+    }
+    const controller = fields.find((other) => other.id === rule.fieldId);
+    const optionId =
+      controller && typeof rule.optionId === 'string'
+        ? replacedOptionIds.get(controller)?.get(rule.optionId)
+        : undefined;
+    if (optionId) rule.optionId = optionId;
+  }
+  return regenerated;
+};
+
+/**
+ * Parses an exported product, migrating older schema versions forward and
+ * validating the result against the same rules as the editor. Every problem
+ * is reported rather than just the first, and keys the schema does not know
+ * are dropped.
+ */
+export const parseProductJson = (
+  text: string,
+  options?: ProductValidationOptions
+): ProductImportResult => {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    return {
+      status: 'error',
+      errors: [`The file is not valid JSON: ${error instanceof Error ? error.message : error}`],
+    };
+  }
+  if (!isRecord(document)) {
+    return { status: 'error', errors: ['The file must contain a JSON object.'] };
+  }
+
+  const initialVersion = typeof document.schemaVersion === 'number' ? document.schemaVersion : 0;
+  if (!Number.isInteger(initialVersion) || initialVersion < 0) {
+    return { status: 'error', errors: [`Unknown schema version "${document.schemaVersion}".`] };
+  }
+  if (initialVersion > PRODUCT_SCHEMA_VERSION) {
+    return {
+      status: 'error',
+      errors: [
+        `The file uses schema version ${initialVersion}, but this app only supports up to version ${PRODUCT_SCHEMA_VERSION}.`,
+      ],
+    };
+  }
+
+  let migrated = document;
+  for (let version = initialVersion; version < PRODUCT_SCHEMA_VERSION; version++) {
+    migrated = migrations[version](migrated);
+  }
+
+  if (!isRecord(migrated.product)) {
+    return { status: 'error', errors: ['The file does not contain a "product" object.'] };
+  }
+
+  const product = structuredClone(migrated.product);
+  const regeneratedIds = regenerateConflictingIds(product);
+  const result = parseProduct(product, options);
+  if (result.status === 'error') {
+    return {
+      status: 'error',
+      errors: Object.entries(result.errors).map(([path, message]) =>
+        path ? `${path}: ${message}` : message
+      ),
+    };
+  }
+
+  return {
+    status: 'success',
+    product: result.product,
+    regeneratedIds,
+    migratedFrom: initialVersion < PRODUCT_SCHEMA_VERSION ? initialVersion : undefined,
+  };
+};
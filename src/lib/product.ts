@@ -0,0 +1,155 @@
+export type FieldType =
+  | 'text'
+  | 'number'
+  | 'dropdown'
+  | 'checkbox'
+  | 'multiselect'
+  | 'date'
+  | 'file';
+/**
+ * `tiered` prices every unit at the rate of the tier the quantity reaches;
+ * `graduated` prices each unit at the rate of the tier it falls in;
+ * `formula` charges the result of the field's `formula`.
+ */
+export type PricingModel =
+  | 'base'
+  | 'perCharacter'
+  | 'perWord'
+  | 'perLine'
+  | 'perUnit'
+  | 'tiered'
+  | 'graduated'
+  | 'formula';
+
+/** Unit price from `minQuantity` up to the next tier's `minQuantity`. */
+export interface PriceTier {
+  id: string;
+  minQuantity: number;
+  unitPrice: number;
+}
+
+/** How a dropdown field is rendered for the customer. */
+export type DropdownDisplayMode = 'select' | 'radio' | 'swatches';
+
+export interface DropdownOption {
+  id: string;
+  name: string;
+  price: number;
+  /** Hex color such as `#1e40af`, shown when the field displays swatches. */
+  swatchColor?: string;
+  /** Image shown instead of the color when the field displays swatches. */
+  swatchImageUrl?: string;
+}
+
+/**
+ * How a visibility rule tests the controlling field: `equals` a dropdown
+ * option (or, for multi-selects, includes it), `notEmpty` for filled-in text
+ * or a checked checkbox, a chosen date or an upload, `greaterThan` a
+ * threshold for numbers.
+ */
+export type VisibilityOperator = 'equals' | 'notEmpty' | 'greaterThan';
+
+export interface VisibilityRule {
+  /** Id of the special field whose value decides visibility. */
+  fieldId: string;
+  operator: VisibilityOperator;
+  /** Dropdown option id, for `equals`. */
+  optionId?: string;
+  /** For `greaterThan`. */
+  threshold?: number;
+}
+
+export interface SpecialField {
+  id: string;
+  label: string;
+  type: FieldType;
+  pricingModel: PricingModel;
+  price: number;
+  /** `perCharacter` and `perUnit` pricing: how many characters or units are free. */
+  includedQuantity?: number;
+  required?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  /** Text fields with `perCharacter` pricing do not charge for spaces and line breaks. */
+  excludeWhitespace?: boolean;
+  /** Text fields accept several lines; always the case under `perLine` pricing. */
+  multiline?: boolean;
+  minValue?: number;
+  maxValue?: number;
+  /** Number fields accept whole numbers only unless this is set. */
+  allowDecimal?: boolean;
+  /** Number fields with `tiered` or `graduated` pricing, in ascending `minQuantity` order. */
+  priceTiers?: PriceTier[];
+  /**
+   * Price expression for `formula` pricing, e.g. `{Width} * {Height} * 0.05`.
+   * See `@/lib/formula` for the syntax.
+   */
+  formula?: string;
+  /** Choices for dropdown and multi-select fields. */
+  dropdownOptions?: DropdownOption[];
+  /** Dropdown fields only; defaults to `select`. */
+  displayMode?: DropdownDisplayMode;
+  /** Date fields only: bounds as `yyyy-MM-dd`, inclusive. */
+  earliestDate?: string;
+  latestDate?: string;
+  /** Date fields only: days of the week that cannot be picked, 0 = Sunday. */
+  blockedWeekdays?: number[];
+  /** Date fields only: `rushSurcharge` is added for dates at most this many days away. */
+  rushDays?: number;
+  rushSurcharge?: number;
+  /** File fields only: accepted MIME types such as `image/png` or `image/*`; any when unset. */
+  allowedMimeTypes?: string[];
+  /** File fields only: size limit per file, in megabytes. */
+  maxFileSizeMb?: number;
+  /** File fields only: how many files the customer may upload. */
+  maxFiles?: number;
+  /** Multi-select fields only: how many options the customer must pick. */
+  minSelections?: number;
+  maxSelections?: number;
+  /** Bounds on what the field adds whenever it charges anything. */
+  minPrice?: number;
+  maxPrice?: number;
+  /** Shown to the customer only while the rule holds; always shown when unset. */
+  visibleWhen?: VisibilityRule;
+}
+
+export interface ProductData {
+  name: string;
+  description: string;
+  basePrice: number;
+  /** Bounds on the total price, e.g. a minimum order value. */
+  minPrice?: number;
+  maxPrice?: number;
+  specialFieldsEnabled: boolean;
+  specialFields: SpecialField[];
+}
+
+/** A customer upload; the contents live in the file storage adapter under `id`. */
+export interface UploadedFile {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+/**
+ * Text, a number, a dropdown option id, whether a checkbox is checked, the
+ * option ids picked in a multi-select, a `yyyy-MM-dd` date, or uploaded files.
+ */
+export type CustomerValue = string | number | boolean | string[] | UploadedFile[];
+
+export interface CustomerValues {
+  [key: string]: CustomerValue;
+}
+
+/** Whether fields of this type are answered by picking from `dropdownOptions`. */
+export const hasOptions = (type: FieldType): boolean =>
+  type === 'dropdown' || type === 'multiselect';
+
+export const createEmptyProduct = (): ProductData => ({
+  name: '',
+  description: '',
+  basePrice: 0,
+  specialFieldsEnabled: false,
+  specialFields: [],
+});
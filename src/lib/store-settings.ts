@@ -0,0 +1,44 @@
+export interface StoreSettings {
+  /** Maximum number of special fields a single product may define. */
+  maxSpecialFields: number;
+  /** Name recorded as the author of product versions saved from this browser. */
+  authorName: string;
+}
+
+export const DEFAULT_STORE_SETTINGS: StoreSettings = {
+  maxSpecialFields: 4,
+  authorName: '',
+};
+
+/** Upper bound accepted for `maxSpecialFields`, keeping the editor and preview usable. */
+export const MAX_SPECIAL_FIELDS_LIMIT = 50;
+
+export interface StoreSettingsRepository {
+  get(): Promise<StoreSettings>;
+  update(settings: StoreSettings): Promise<StoreSettings>;
+}
+
+export class LocalStorageStoreSettingsRepository implements StoreSettingsRepository {
+  constructor(
+    private readonly storageKey = 'store-settings',
+    private readonly storage: Storage = window.localStorage
+  ) {}
+
+  async get(): Promise<StoreSettings> {
+    const raw = this.storage.getItem(this.storageKey);
+    if (!raw) return DEFAULT_STORE_SETTINGS;
+    try {
+      return { ...DEFAULT_STORE_SETTINGS, ...(JSON.parse(raw) as Partial<StoreSettings>) };
+    } catch {
+      return DEFAULT_STORE_SETTINGS;
+    }
+  }
+
+  async update(settings: StoreSettings): Promise<StoreSettings> {
+    this.storage.setItem(this.storageKey, JSON.stringify(settings));
+    return settings;
+  }
+}
+
+export const storeSettingsRepository: StoreSettingsRepository =
+  new LocalStorageStoreSettingsRepository();
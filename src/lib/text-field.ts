@@ -0,0 +1,18 @@
+import type { SpecialField } from '@/lib/product';
+
+/** Helpers for counting the billable parts of text special field values. */
+
+/** Characters billed under `perCharacter` pricing, optionally skipping whitespace. */
+export const countCharacters = (field: SpecialField, text: string): number =>
+  field.excludeWhitespace ? text.replace(/\s/g, '').length : text.length;
+
+export const countWords = (text: string): number =>
+  text.split(/\s+/).filter(Boolean).length;
+
+/** Lines with visible content; blank lines are not billed. */
+export const countLines = (text: string): number =>
+  text.split(/\r\n|\r|\n/).filter((line) => line.trim() !== '').length;
+
+/** Per-line pricing only makes sense when the customer can enter several lines. */
+export const isMultilineField = (field: SpecialField): boolean =>
+  field.type === 'text' && (!!field.multiline || field.pricingModel === 'perLine');
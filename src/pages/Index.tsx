@@ -1,7 +0,0 @@
-import ProductManagement from '@/components/ProductManagement';
-
-const Index = () => {
-  return <ProductManagement />;
-};
-
-export default Index;
@@ -0,0 +1,54 @@
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import ProductManagement from '@/components/ProductManagement';
+import { useProduct } from '@/hooks/use-products';
+import type { ProductData } from '@/lib/product';
+
+const duplicateProduct = (product: ProductData): ProductData => ({
+  ...product,
+  name: product.name ? `${product.name} (Copy)` : '',
+});
+
+/**
+ * Serves `/products/new` (optionally `?from=<id>` to start from a duplicate)
+ * and `/products/:id/edit`.
+ */
+const ProductEditor = () => {
+  const { id } = useParams();
+  const [searchParams] = useSearchParams();
+  const sourceId = id ?? searchParams.get('from') ?? undefined;
+  const { data: stored, isLoading } = useProduct(sourceId);
+
+  if (sourceId && isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <p className="text-muted-foreground">Loading product...</p>
+      </div>
+    );
+  }
+
+  if (sourceId && !stored) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-muted">
+        <div className="text-center">
+          <h1 className="mb-4 text-4xl font-bold">Product not found</h1>
+          <Link to="/products" className="text-primary underline hover:text-primary/90">
+            Back to Catalog
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (id) {
+    return <ProductManagement key={id} productId={id} initialProduct={stored!.product} />;
+  }
+
+  return (
+    <ProductManagement
+      key={sourceId ?? 'new'}
+      initialProduct={stored ? duplicateProduct(stored.product) : undefined}
+    />
+  );
+};
+
+export default ProductEditor;
@@ -0,0 +1,7 @@
+import ProductCsvImport from '@/components/ProductCsvImport';
+
+const ProductImport = () => {
+  return <ProductCsvImport />;
+};
+
+export default ProductImport;
@@ -0,0 +1,7 @@
+import ProductCatalog from '@/components/ProductCatalog';
+
+const Products = () => {
+  return <ProductCatalog />;
+};
+
+export default Products;
@@ -0,0 +1,7 @@
+import StoreSettingsPanel from '@/components/StoreSettingsPanel';
+
+const Settings = () => {
+  return <StoreSettingsPanel />;
+};
+
+export default Settings;